@@ -1,41 +1,138 @@
 import React, { useMemo, useState } from "react";
 import SettingsDrawer from "./components/SettingsDrawer";
 import Maze2DView from "./components/Maze2DView";
-import { generateMaze, generateMaze3D, printMaze } from "./components/utils";
+import {
+  generateMaze3D,
+  printMaze,
+  recordMazeGeneration,
+} from "./components/utils";
+import {
+  DEFAULT_TERRAIN_COSTS,
+  createPortalMap,
+  mulberry32,
+  randomSeed,
+} from "./components/utils";
+import type {
+  Heuristic,
+  MazeGenerator,
+  Movement,
+  TerrainCosts,
+  TieBreaking,
+  Topology,
+} from "./components/utils";
 import Maze3DView from "./components/Maze3DView";
+import RaceView from "./components/RaceView";
+import { useMazeEditor, useMazeEditor3D } from "./hooks/useMazeEditor";
 
-export type Algorithm = "bfs" | "dfs" | "astar" | "dijkstra" | "greedy";
+export type Algorithm =
+  | "bfs"
+  | "dfs"
+  | "astar"
+  | "dijkstra"
+  | "greedy"
+  | "bidirectional-bfs"
+  | "bidirectional-astar"
+  | "iddfs"
+  | "idastar"
+  | "jps";
 
 export interface MazeSettings {
   mazeWidth: number;
   mazeHeight: number;
   wallDensity: number;
+  generator: MazeGenerator;
+  // Replays the generation of 2D mazes before they can be searched
+  animateGeneration: boolean;
+  // Seeds maze generation; the same seed and settings give the same maze
+  seed: number;
   algorithm: Algorithm;
   animationSpeed: number;
   mazeLevels: number;
+  // 3D elevators: how many start on each floor, how many floors one may
+  // climb, and what a ride costs per floor
+  elevatorsPerFloor: number;
+  elevatorSpan: number;
+  elevatorCost: number;
+  // 3D drop holes on every floor but the bottom one
+  dropHolesPerFloor: number;
   viewType: "2D" | "3D";
+  tieBreaking: TieBreaking;
+  skipAnimation: boolean;
+  terrainDensity: number;
+  // Linked teleporter pairs in every layer, 0 to 4
+  teleporterPairs: number;
+  // One-way conveyor cells in every layer
+  conveyors: number;
+  terrainCosts: TerrainCosts;
+  // Square, hex or wrapping cells; 3D layers are always square
+  topology: Topology;
+  movement: Movement;
+  heuristic: Heuristic;
+  // Weighted A* epsilon; 1 is plain A*
+  weight: number;
+  // Race mode runs raceAlgorithms (two to four) side by side
+  raceMode: boolean;
+  raceAlgorithms: Algorithm[];
 }
 
+export type StepDirection = "forward" | "backward";
+
 export interface MazeStats {
   pathLength: number;
   nodesVisited: number;
   success: boolean;
+  // Sum of move costs along the path; differs from the length on terrain
+  pathCost?: number;
+  // Cheapest possible cost, reported for heuristic searches
+  optimalCost?: number;
+  // Iterative deepening only: current depth/f bound and repeated expansions
+  bound?: number;
+  reExpansions?: number;
+  // Why the search ran as plain A* instead (Jump Point Search only)
+  fallback?: string;
+  // Iterative deepening gave up at its expansion limit
+  limitReached?: boolean;
 }
 
+// 3D generation gives up when no start/goal pair fits, so it gets retried
+const GENERATION_ATTEMPTS_3D = 10;
+
 function App() {
   const [settings, setSettings] = useState<MazeSettings>({
     mazeWidth: 21,
     mazeHeight: 21,
     wallDensity: 0.7,
+    generator: "prim",
+    animateGeneration: false,
+    seed: randomSeed(),
     algorithm: "astar",
     animationSpeed: 50,
     mazeLevels: 3,
+    elevatorsPerFloor: 1,
+    elevatorSpan: 1,
+    elevatorCost: 1,
+    dropHolesPerFloor: 0,
     viewType: "2D",
+    tieBreaking: "fifo",
+    skipAnimation: false,
+    terrainDensity: 0,
+    teleporterPairs: 0,
+    conveyors: 0,
+    terrainCosts: DEFAULT_TERRAIN_COSTS,
+    topology: "square",
+    movement: "4-way",
+    heuristic: "auto",
+    weight: 1,
+    raceMode: false,
+    raceAlgorithms: ["bfs", "astar", "greedy"],
   });
 
   const [isRunning, setIsRunning] = useState(false);
   const [shouldReset, setShouldReset] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [stepRequest, setStepRequest] = useState<StepDirection | null>(null);
   const [stats, setStats] = useState<MazeStats | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
 
   const handleRun = () => {
     setShouldReset(false);
@@ -45,36 +142,94 @@ function App() {
   const handleReset = () => {
     setShouldReset(true);
     setIsRunning(false);
+    setIsPaused(false);
   };
 
-  const maze = useMemo(() => {
-    const m = generateMaze({
+  const handleStep = (direction: StepDirection) => {
+    setIsPaused(isRunning);
+    setStepRequest(direction);
+  };
+
+  // The generation is recorded too, so it can be replayed in 2D
+  const generation = useMemo(() => {
+    const generation = recordMazeGeneration({
       width: settings.mazeWidth,
       height: settings.mazeHeight,
       wallDensity: settings.wallDensity,
+      terrainDensity: settings.terrainDensity,
+      teleporterPairs: settings.teleporterPairs,
+      conveyors: settings.conveyors,
+      generator: settings.generator,
+      topology: settings.topology,
+      random: mulberry32(settings.seed),
     });
-    printMaze(m);
-    return m;
-  }, [settings.mazeWidth, settings.mazeHeight, settings.wallDensity]);
+    printMaze(generation.maze);
+    return generation;
+  }, [
+    settings.mazeWidth,
+    settings.mazeHeight,
+    settings.wallDensity,
+    settings.terrainDensity,
+    settings.teleporterPairs,
+    settings.conveyors,
+    settings.generator,
+    settings.topology,
+    settings.seed,
+  ]);
+  // Hand edits in the 2D view apply on top of the generated maze
+  const editor = useMazeEditor(generation.maze, settings.topology, () => {
+    if (stats) handleReset();
+  });
+  const maze = editor.maze;
 
   // Use generateMaze3D when in 3D view, otherwise use generateMaze (already set as 'maze')
-  const maze3D = useMemo(() => {
+  const generated3D = useMemo(() => {
     if (settings.viewType === "3D") {
-      // Use 3 layers for demo; can expose as a setting if desired
-      return generateMaze3D(
-        settings.mazeLevels,
-        settings.mazeWidth,
-        settings.mazeHeight
-      );
+      const config = {
+        width: settings.mazeWidth,
+        height: settings.mazeHeight,
+        wallDensity: settings.wallDensity,
+        terrainDensity: settings.terrainDensity,
+        teleporterPairs: settings.teleporterPairs,
+        conveyors: settings.conveyors,
+        generator: settings.generator,
+        elevatorsPerFloor: settings.elevatorsPerFloor,
+        elevatorSpan: settings.elevatorSpan,
+        dropHolesPerFloor: settings.dropHolesPerFloor,
+        random: mulberry32(settings.seed),
+      };
+      // An unlucky layout leaves no start/goal pair on different floors;
+      // the next attempt draws on from the same seed, so it stays repeatable
+      for (let attempt = 1; ; attempt++) {
+        try {
+          return generateMaze3D(settings.mazeLevels, config);
+        } catch (err) {
+          if (attempt >= GENERATION_ATTEMPTS_3D) throw err;
+        }
+      }
     }
-    return [];
+    return { maze: [], portals: createPortalMap([]) };
   }, [
     settings.mazeWidth,
     settings.mazeHeight,
     settings.wallDensity,
+    settings.terrainDensity,
+    settings.teleporterPairs,
+    settings.conveyors,
+    settings.generator,
+    settings.seed,
     settings.viewType,
     settings.mazeLevels,
+    settings.elevatorsPerFloor,
+    settings.elevatorSpan,
+    settings.dropHolesPerFloor,
   ]);
+  // Walls and portals of each layer can be edited in the 3D view
+  const editor3D = useMazeEditor3D(generated3D, () => {
+    if (stats) handleReset();
+  });
+  const maze3D = editor3D.maze;
+  const portals = editor3D.portals;
 
   return (
     <>
@@ -82,16 +237,43 @@ function App() {
         settings={settings}
         setSettings={setSettings}
         isRunning={isRunning}
+        isGenerating={isGenerating}
         stats={stats}
         onRun={handleRun}
         onReset={handleReset}
+        isPaused={isPaused}
+        onTogglePause={() => setIsPaused((paused) => !paused)}
+        onStep={handleStep}
       />
-      {settings.viewType === "2D" ? (
+      {settings.raceMode ? (
+        <RaceView
+          maze={maze}
+          maze3D={maze3D}
+          portals={portals}
+          settings={settings}
+          isRunning={isRunning}
+          setIsRunning={setIsRunning}
+          isPaused={isPaused}
+          setIsPaused={setIsPaused}
+          stepRequest={stepRequest}
+          setStepRequest={setStepRequest}
+          setStats={setStats}
+          shouldReset={shouldReset}
+          setShouldReset={setShouldReset}
+        />
+      ) : settings.viewType === "2D" ? (
         <Maze2DView
           maze={maze}
+          generationSteps={generation.steps}
+          editor={editor}
+          setIsGenerating={setIsGenerating}
           settings={settings}
           isRunning={isRunning}
           setIsRunning={setIsRunning}
+          isPaused={isPaused}
+          setIsPaused={setIsPaused}
+          stepRequest={stepRequest}
+          setStepRequest={setStepRequest}
           stats={stats}
           setStats={setStats}
           shouldReset={shouldReset}
@@ -100,9 +282,15 @@ function App() {
       ) : (
         <Maze3DView
           maze3D={maze3D}
+          portals={portals}
+          editor={editor3D}
           settings={settings}
           isRunning={isRunning}
           setIsRunning={setIsRunning}
+          isPaused={isPaused}
+          setIsPaused={setIsPaused}
+          stepRequest={stepRequest}
+          setStepRequest={setStepRequest}
           stats={stats}
           setStats={setStats}
           shouldReset={shouldReset}
@@ -0,0 +1,397 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Drawer,
+  DrawerClose,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+  DrawerTrigger,
+} from "@/components/ui/drawer";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { ChartColumn, Download, Play, Square } from "lucide-react";
+import type { Algorithm, MazeSettings } from "@/App";
+import { algorithmNames } from "./utils";
+import {
+  benchmarkRunCount,
+  benchmarkToCSV,
+  benchmarkToJSON,
+  summarizeBenchmark,
+} from "@/lib/benchmark";
+import type { BenchmarkConfig, BenchmarkRow } from "@/lib/benchmark";
+import type { BenchmarkWorkerResponse } from "@/workers/benchmarkWorker";
+
+interface BenchmarkDrawerProps {
+  settings: MazeSettings;
+  disabled?: boolean;
+}
+
+interface ToggleGroupProps<T> {
+  label: string;
+  options: readonly T[];
+  selected: T[];
+  onChange: (selected: T[]) => void;
+  format: (option: T) => string;
+  disabled: boolean;
+}
+
+const SIZE_OPTIONS = [11, 21, 31, 41, 61];
+const DENSITY_OPTIONS = [0.3, 0.5, 0.7, 0.9];
+const LAYER_OPTIONS = [1, 2, 3, 4];
+const ALGORITHM_OPTIONS = Object.keys(algorithmNames) as Algorithm[];
+
+const download = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const round = (value: number, digits = 1) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Row of on/off buttons; the last selected option can't be turned off
+function ToggleGroup<T extends string | number>({
+  label,
+  options,
+  selected,
+  onChange,
+  format,
+  disabled,
+}: ToggleGroupProps<T>) {
+  const toggle = (option: T) => {
+    if (!selected.includes(option)) {
+      onChange(options.filter((o) => o === option || selected.includes(o)));
+    } else if (selected.length > 1) {
+      onChange(selected.filter((o) => o !== option));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-white">{label}</Label>
+      <div className="flex flex-wrap gap-2">
+        {options.map((option) => (
+          <Button
+            key={option}
+            onClick={() => toggle(option)}
+            disabled={disabled}
+            variant={selected.includes(option) ? "default" : "outline"}
+            size="sm"
+            className={
+              selected.includes(option)
+                ? undefined
+                : "text-white border-white/15 bg-[#24263b] hover:bg-[#292b43]"
+            }
+          >
+            {format(option)}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Headless benchmark: runs the chosen algorithms on batches of generated
+ * mazes in a worker, without animation, and summarises the results. Search
+ * options (movement, heuristic, terrain costs...) come from the main settings.
+ */
+export default function BenchmarkDrawer({
+  settings,
+  disabled = false,
+}: BenchmarkDrawerProps) {
+  const [sizes, setSizes] = useState([21, 41]);
+  const [densities, setDensities] = useState([0.5, 0.7]);
+  const [layers, setLayers] = useState([1]);
+  const [mazesPerCase, setMazesPerCase] = useState(10);
+  const [algorithms, setAlgorithms] = useState(ALGORITHM_OPTIONS);
+
+  // Config of the last run, kept for the JSON export
+  const [config, setConfig] = useState<BenchmarkConfig | null>(null);
+  const [rows, setRows] = useState<BenchmarkRow[]>([]);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stopWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  };
+
+  // Stop the benchmark when the app goes away
+  useEffect(() => stopWorker, []);
+
+  const handleRun = () => {
+    stopWorker();
+    const next: BenchmarkConfig = {
+      sizes,
+      densities,
+      layers,
+      mazesPerCase,
+      terrainDensity: settings.terrainDensity,
+      teleporterPairs: settings.teleporterPairs,
+      conveyors: settings.conveyors,
+      generator: settings.generator,
+      topology: settings.topology,
+      elevatorsPerFloor: settings.elevatorsPerFloor,
+      elevatorSpan: settings.elevatorSpan,
+      dropHolesPerFloor: settings.dropHolesPerFloor,
+      seed: settings.seed,
+      algorithms,
+      options: {
+        tieBreaking: settings.tieBreaking,
+        terrainCosts: settings.terrainCosts,
+        movement: settings.movement,
+        heuristic: settings.heuristic,
+        weight: settings.weight,
+        elevatorCost: settings.elevatorCost,
+      },
+    };
+    setConfig(next);
+    setRows([]);
+    setError(null);
+    setRunning(true);
+
+    const worker = new Worker(
+      new URL("../workers/benchmarkWorker.ts", import.meta.url),
+      { type: "module" }
+    );
+    workerRef.current = worker;
+    worker.onmessage = (e: MessageEvent<BenchmarkWorkerResponse>) => {
+      const message = e.data;
+      if (message.type === "rows") {
+        setRows((prev) => [...prev, ...message.rows]);
+        return;
+      }
+      if (message.type === "error") setError(message.message);
+      stopWorker();
+      setRunning(false);
+    };
+    worker.postMessage(next);
+  };
+
+  const handleStop = () => {
+    stopWorker();
+    setRunning(false);
+  };
+
+  const total = config ? benchmarkRunCount(config) : 0;
+  const summary = summarizeBenchmark(rows);
+  const stamp = () => new Date().toISOString().replace(/[:.]/g, "-");
+
+  return (
+    <Drawer>
+      <DrawerTrigger asChild>
+        <Button
+          variant="outline"
+          size="lg"
+          className="gap-2"
+          disabled={disabled}
+        >
+          <ChartColumn className="w-5 h-5" />
+          Benchmark
+        </Button>
+      </DrawerTrigger>
+      <DrawerContent className="dark bg-[#191B23] text-white border border-white/15">
+        <div className="mx-auto w-full max-w-4xl max-h-[80vh] overflow-y-auto">
+          <DrawerHeader>
+            <DrawerTitle className="text-white">Benchmark</DrawerTitle>
+            <DrawerDescription className="text-zinc-300">
+              Runs algorithms on generated mazes without animation, using the
+              current generator, seed and search settings
+            </DrawerDescription>
+          </DrawerHeader>
+
+          <div className="p-6 space-y-6">
+            <ToggleGroup
+              label="Maze Sizes"
+              options={SIZE_OPTIONS}
+              selected={sizes}
+              onChange={setSizes}
+              format={(size) => `${size}×${size}`}
+              disabled={running}
+            />
+            <ToggleGroup
+              label="Wall Densities"
+              options={DENSITY_OPTIONS}
+              selected={densities}
+              onChange={setDensities}
+              format={(density) => density.toFixed(1)}
+              disabled={running}
+            />
+            <ToggleGroup
+              label="Layers"
+              options={LAYER_OPTIONS}
+              selected={layers}
+              onChange={setLayers}
+              format={(count) => (count === 1 ? "2D" : `3D × ${count}`)}
+              disabled={running}
+            />
+            <ToggleGroup
+              label="Algorithms"
+              options={ALGORITHM_OPTIONS}
+              selected={algorithms}
+              onChange={setAlgorithms}
+              format={(algorithm) => algorithmNames[algorithm]}
+              disabled={running}
+            />
+
+            <div className="space-y-2">
+              <Label htmlFor="mazesPerCase" className="text-white">
+                Mazes per Case: {mazesPerCase}
+              </Label>
+              <Slider
+                id="mazesPerCase"
+                min={1}
+                max={50}
+                step={1}
+                value={[mazesPerCase]}
+                onValueChange={(vals) => setMazesPerCase(vals[0])}
+                disabled={running}
+                className="dark"
+              />
+              <p className="text-sm text-zinc-400">
+                {sizes.length * densities.length * layers.length * mazesPerCase}{" "}
+                mazes,{" "}
+                {sizes.length *
+                  densities.length *
+                  layers.length *
+                  mazesPerCase *
+                  algorithms.length}{" "}
+                searches. Iterative deepening gets slow on large 3D mazes.
+              </p>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              {running ? (
+                <Button
+                  onClick={handleStop}
+                  variant="destructive"
+                  className="gap-2"
+                >
+                  <Square className="w-4 h-4" />
+                  Stop
+                </Button>
+              ) : (
+                <Button onClick={handleRun} className="gap-2">
+                  <Play className="w-4 h-4" />
+                  Run Benchmark
+                </Button>
+              )}
+              <Button
+                onClick={() =>
+                  download(
+                    benchmarkToCSV(rows),
+                    `benchmark-${stamp()}.csv`,
+                    "text/csv"
+                  )
+                }
+                disabled={rows.length === 0}
+                variant="outline"
+                className="gap-2 text-white border-white/15 bg-[#24263b] hover:bg-[#292b43]"
+              >
+                <Download className="w-4 h-4" />
+                CSV
+              </Button>
+              <Button
+                onClick={() =>
+                  config &&
+                  download(
+                    benchmarkToJSON(config, rows),
+                    `benchmark-${stamp()}.json`,
+                    "application/json"
+                  )
+                }
+                disabled={rows.length === 0}
+                variant="outline"
+                className="gap-2 text-white border-white/15 bg-[#24263b] hover:bg-[#292b43]"
+              >
+                <Download className="w-4 h-4" />
+                JSON
+              </Button>
+              {config && (
+                <span className="text-sm text-zinc-300">
+                  {rows.length} / {total} searches
+                  {running && (
+                    <span className="text-yellow-400"> · Running…</span>
+                  )}
+                </span>
+              )}
+            </div>
+            {error && <p className="text-sm text-red-400">Error: {error}</p>}
+
+            {summary.length > 0 && (
+              <table className="w-full text-sm text-left">
+                <thead className="text-zinc-400 border-b border-white/15">
+                  <tr>
+                    <th className="py-2 pr-4 font-normal">Algorithm</th>
+                    <th className="py-2 pr-4 font-normal text-right">Runs</th>
+                    <th className="py-2 pr-4 font-normal text-right">Found</th>
+                    <th className="py-2 pr-4 font-normal text-right">Nodes</th>
+                    <th className="py-2 pr-4 font-normal text-right">Path</th>
+                    <th className="py-2 pr-4 font-normal text-right">Cost</th>
+                    <th className="py-2 pr-4 font-normal text-right">
+                      Peak Frontier
+                    </th>
+                    <th className="py-2 font-normal text-right">Time (ms)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.map((row) => (
+                    <tr key={row.algorithm} className="border-b border-white/5">
+                      <td className="py-1 pr-4">
+                        {algorithmNames[row.algorithm]}
+                      </td>
+                      <td className="py-1 pr-4 text-right">{row.runs}</td>
+                      <td className="py-1 pr-4 text-right">
+                        {Math.round(row.successRate * 100)}%
+                      </td>
+                      <td className="py-1 pr-4 text-right text-blue-400">
+                        {round(row.nodesVisited)}
+                      </td>
+                      <td className="py-1 pr-4 text-right text-purple-400">
+                        {round(row.pathLength)}
+                      </td>
+                      <td className="py-1 pr-4 text-right">
+                        {round(row.pathCost, 2)}
+                      </td>
+                      <td className="py-1 pr-4 text-right">
+                        {round(row.peakFrontier)}
+                      </td>
+                      <td className="py-1 text-right">
+                        {round(row.timeMs, 2)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {summary.length > 0 && (
+              <p className="text-sm text-zinc-400">
+                Means per search; path and cost only count searches that found a
+                path
+              </p>
+            )}
+          </div>
+
+          <DrawerFooter>
+            <DrawerClose asChild>
+              <Button
+                variant="outline"
+                className="text-white border-white/15 bg-[#24263b] hover:bg-[#292b43]"
+              >
+                Close
+              </Button>
+            </DrawerClose>
+          </DrawerFooter>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+}
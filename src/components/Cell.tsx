@@ -1,37 +1,47 @@
-import React, { useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useFrame } from "@react-three/fiber";
+import type { ThreeEvent } from "@react-three/fiber";
 import * as THREE from "three";
-import SciFiSphere from "./SciFiSphere";
+import { cellCenter } from "./utils";
+import type { Topology } from "./utils";
 
-interface CellProps {
-  position?: [number, number, number];
-  size?: number;
+interface CellEditorProps {
+  columns: number;
+  rows: number;
+  cellSize?: number;
+  topology?: Topology;
+  // Height of the editing surface, level with the top of the walls
+  elevation?: number;
+  hoverColor?: string;
+  onStrokeStart: (x: number, y: number) => void;
+  onStrokeMove: (x: number, y: number) => void;
+  onStrokeEnd: () => void;
 }
 
 const BORDER_COLOR_DEFAULT = "#222629"; // dark grey
 const BORDER_COLOR_HOVER = "#00ff88";
-const FILL_COLOR = "#1a1a1a";
 
-// Each cell is a cube, and on top face we have the circle hover effect exactly on the top
-export default function Cell({ position = [0, 0, 0], size = 1 }: CellProps) {
-  const [hovered, setHovered] = useState(false);
-  const borderMaterialRef = useRef<THREE.LineBasicMaterial>(null);
-  const meshRef = useRef<THREE.Mesh>(null);
-
-  // Animate border color smoothly on hover
-  useFrame(() => {
-    if (borderMaterialRef.current) {
-      const targetColor = new THREE.Color(
-        hovered ? BORDER_COLOR_HOVER : BORDER_COLOR_DEFAULT
-      );
-      borderMaterialRef.current.color.lerp(targetColor, 0.2);
-    }
-  });
+// Editing layer over the grid: one invisible plane catches the pointer and
+// maps it to cells, and a ring on the top face highlights the hovered cell.
+// Dragging with the button held paints every cell the pointer crosses.
+export default function CellEditor({
+  columns,
+  rows,
+  cellSize = 1,
+  topology = "square",
+  elevation = 1,
+  hoverColor = BORDER_COLOR_HOVER,
+  onStrokeStart,
+  onStrokeMove,
+  onStrokeEnd,
+}: CellEditorProps) {
+  const [hovered, setHovered] = useState<[number, number] | null>(null);
+  const strokingRef = useRef(false);
 
   // Create circular border geometry for the top face (y constant, in xz-plane)
-  const borderGeometry = React.useMemo(() => {
+  const border = useMemo(() => {
     const segments = 64;
-    const radius = size * 0.4;
+    const radius = cellSize * 0.4;
     const points: THREE.Vector3[] = [];
     for (let i = 0; i <= segments; i++) {
       const theta = (i / segments) * Math.PI * 2;
@@ -39,54 +49,112 @@ export default function Cell({ position = [0, 0, 0], size = 1 }: CellProps) {
         new THREE.Vector3(Math.cos(theta) * radius, 0, Math.sin(theta) * radius)
       );
     }
-    return new THREE.BufferGeometry().setFromPoints(points);
-  }, [size]);
+    return new THREE.Line(
+      new THREE.BufferGeometry().setFromPoints(points),
+      new THREE.LineBasicMaterial({ color: BORDER_COLOR_DEFAULT, linewidth: 2 })
+    );
+  }, [cellSize]);
+
+  // Animate border color smoothly on hover
+  useFrame(() => {
+    const targetColor = new THREE.Color(
+      hovered ? hoverColor : BORDER_COLOR_DEFAULT
+    );
+    (border.material as THREE.LineBasicMaterial).color.lerp(targetColor, 0.2);
+  });
+
+  useEffect(
+    () => () => {
+      border.geometry.dispose();
+      (border.material as THREE.Material).dispose();
+    },
+    [border]
+  );
 
-  // Height of cell, for true cube (should match width/length)
-  const cubeHeight = size;
+  // Span between the outermost cell centres, in cell units; shifted hex
+  // rows reach half a cell further right
+  const extentX = columns - 1 + (topology === "hex" ? 0.5 : 0);
+  const rowSpacing = cellCenter(0, 1, topology)[1];
+  const extentZ = (rows - 1) * rowSpacing;
 
-  // --- HOVER FIX: Only highlight border if you hover the TOP cube face ---
-  // The normal of the top face boxGeometry is (0,1,0).
-  const handlePointerOver = (e: any) => {
-    e.stopPropagation(); // Prevent event from bubbling to other cells
-    // Only count pointer as hover if over the top face (normal.y === 1)
-    if (e.face && e.face.normal && e.face.normal.y === 0) {
-      setHovered(true);
+  // The cell whose centre is nearest the pointer is the one under it; on
+  // hex grids that can be in the row above or below the nearest row
+  const cellAt = (e: ThreeEvent<PointerEvent>): [number, number] | null => {
+    const px = e.point.x / cellSize;
+    const pz = e.point.z / cellSize;
+    const row = Math.round(pz / rowSpacing);
+    let [x, y] = [0, 0];
+    let best = Infinity;
+    for (let rowY = row - 1; rowY <= row + 1; rowY++) {
+      const rowX = Math.round(px - cellCenter(0, rowY, topology)[0]);
+      const [cx, cz] = cellCenter(rowX, rowY, topology);
+      const distance = (cx - px) ** 2 + (cz - pz) ** 2;
+      if (distance < best) {
+        best = distance;
+        [x, y] = [rowX, rowY];
+      }
     }
+    return x >= 0 && x < columns && y >= 0 && y < rows ? [x, y] : null;
+  };
+
+  const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    const cell = cellAt(e);
+    if (!cell) return;
+    // Keep receiving moves and the release even off the grid
+    (e.target as Element).setPointerCapture(e.pointerId);
+    strokingRef.current = true;
+    onStrokeStart(...cell);
   };
 
-  const handlePointerOut = (e: any) => {
-    e.stopPropagation(); // Prevent event from bubbling
-    setHovered(false);
+  const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
+    const cell = cellAt(e);
+    setHovered((prev) =>
+      prev && cell && prev[0] === cell[0] && prev[1] === cell[1] ? prev : cell
+    );
+    if (strokingRef.current && cell) onStrokeMove(...cell);
+  };
+
+  const handlePointerUp = (e: ThreeEvent<PointerEvent>) => {
+    if (!strokingRef.current) return;
+    (e.target as Element).releasePointerCapture(e.pointerId);
+    strokingRef.current = false;
+    onStrokeEnd();
   };
 
   return (
-    <group position={position}>
-      {/* Main Cube */}
+    <group>
+      {/* Pointer surface, transparent so the maze shows through */}
       <mesh
-        ref={meshRef}
-        onPointerOver={handlePointerOver}
-        onPointerOut={handlePointerOut}
-        castShadow
-        receiveShadow
+        position={[
+          (extentX * cellSize) / 2,
+          elevation,
+          (extentZ * cellSize) / 2,
+        ]}
+        rotation={[-Math.PI / 2, 0, 0]}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerOut={() => setHovered(null)}
       >
-        <boxGeometry args={[size, cubeHeight, size]} />
-        <meshStandardMaterial color={FILL_COLOR} />
+        <planeGeometry
+          args={[(extentX + 1) * cellSize, (extentZ + 1) * cellSize]}
+        />
+        <meshBasicMaterial transparent opacity={0} depthWrite={false} />
       </mesh>
-      {/* Border effect: thin circle on the *top face* (y = half cube height), in xz-plane */}
-      <group
-        position={[0, 0, cubeHeight / 2]} // precisely on top face
-        rotation={[-Math.PI / 2, 0, 0]} // align into xz-plane to match top
-      >
-        <line geometry={borderGeometry}>
-          <lineBasicMaterial
-            ref={borderMaterialRef}
-            color={BORDER_COLOR_DEFAULT}
-            linewidth={2}
-          />
-        </line>
-        {/* Sci-Fi node */}
-      </group>
+
+      {/* Border effect: thin circle on the top face of the hovered cell */}
+      {hovered && (
+        <primitive
+          object={border}
+          position={[
+            cellCenter(...hovered, topology)[0] * cellSize,
+            elevation + 0.01,
+            cellCenter(...hovered, topology)[1] * cellSize,
+          ]}
+        />
+      )}
     </group>
   );
 }
@@ -0,0 +1,162 @@
+import { useEffect } from "react";
+import {
+  ArrowBigDownDash,
+  ArrowBigUpDash,
+  BrickWall,
+  ChevronDown,
+  ChevronUp,
+  Eraser,
+  Flag,
+  Pencil,
+  Redo2,
+  Target,
+  Undo2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { canPlaceBrush } from "@/hooks/useMazeEditor";
+import type { Brush, MazeEditor, MazeEditor3D } from "@/hooks/useMazeEditor";
+
+interface EditorToolbarProps {
+  editor: MazeEditor | MazeEditor3D;
+  // Editing waits while a search or a generation replay is running
+  disabled: boolean;
+}
+
+const BRUSHES: {
+  brush: Brush;
+  label: string;
+  icon: typeof BrickWall;
+  // Only offered when editing a stack of layers
+  layered?: boolean;
+}[] = [
+  { brush: "wall", label: "Wall", icon: BrickWall },
+  { brush: "erase", label: "Erase", icon: Eraser },
+  { brush: "start", label: "Start", icon: Flag },
+  { brush: "goal", label: "Goal", icon: Target },
+  {
+    brush: "portal-up",
+    label: "Portal up",
+    icon: ArrowBigUpDash,
+    layered: true,
+  },
+  {
+    brush: "portal-down",
+    label: "Portal down",
+    icon: ArrowBigDownDash,
+    layered: true,
+  },
+];
+
+// Brush picker and history for the maze editor, on the left of the view.
+// 3D editors also get a layer picker and the portal brushes.
+export default function EditorToolbar({
+  editor,
+  disabled,
+}: EditorToolbarProps) {
+  const { brush, setBrush, undo, redo, canUndo, canRedo } = editor;
+  const editing = brush !== null && !disabled;
+  const layered = "layer" in editor;
+  const layer = layered ? editor.layer : 0;
+  const layers = layered ? editor.maze.length : 1;
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes
+  useEffect(() => {
+    if (disabled) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [disabled, undo, redo]);
+
+  return (
+    <div className="absolute left-4 top-1/2 -translate-y-1/2 flex flex-col gap-2 bg-black/80 backdrop-blur-sm p-2 rounded-lg border border-white/20 z-10">
+      <Button
+        onClick={() => setBrush(brush === null ? "wall" : null)}
+        disabled={disabled}
+        variant={editing ? "default" : "outline"}
+        size="icon-lg"
+        aria-label={editing ? "Stop editing" : "Edit maze"}
+        title={editing ? "Stop editing" : "Edit maze"}
+      >
+        <Pencil className="w-5 h-5" />
+      </Button>
+
+      {editing && layered && (
+        <>
+          <Button
+            onClick={() => editor.setLayer(layer + 1)}
+            disabled={layer >= layers - 1}
+            variant="outline"
+            size="icon-lg"
+            aria-label="Layer above"
+            title="Layer above"
+          >
+            <ChevronUp className="w-5 h-5" />
+          </Button>
+          <span className="text-center text-sm text-white" title="Edited layer">
+            L{layer + 1}/{layers}
+          </span>
+          <Button
+            onClick={() => editor.setLayer(layer - 1)}
+            disabled={layer <= 0}
+            variant="outline"
+            size="icon-lg"
+            aria-label="Layer below"
+            title="Layer below"
+          >
+            <ChevronDown className="w-5 h-5" />
+          </Button>
+          <div className="border-t border-white/20" />
+        </>
+      )}
+
+      {editing &&
+        BRUSHES.filter((option) => layered || !option.layered).map(
+          ({ brush: option, label, icon: Icon }) => (
+            <Button
+              key={option}
+              onClick={() => setBrush(option)}
+              disabled={!canPlaceBrush(option, layer, layers)}
+              variant={brush === option ? "default" : "outline"}
+              size="icon-lg"
+              aria-label={`${label} brush`}
+              title={label}
+            >
+              <Icon className="w-5 h-5" />
+            </Button>
+          )
+        )}
+
+      <div className="border-t border-white/20" />
+      <Button
+        onClick={undo}
+        disabled={disabled || !canUndo}
+        variant="outline"
+        size="icon-lg"
+        aria-label="Undo"
+        title="Undo (Ctrl+Z)"
+      >
+        <Undo2 className="w-5 h-5" />
+      </Button>
+      <Button
+        onClick={redo}
+        disabled={disabled || !canRedo}
+        variant="outline"
+        size="icon-lg"
+        aria-label="Redo"
+        title="Redo (Ctrl+Shift+Z)"
+      >
+        <Redo2 className="w-5 h-5" />
+      </Button>
+    </div>
+  );
+}
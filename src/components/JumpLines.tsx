@@ -0,0 +1,104 @@
+import React, { useEffect, useMemo } from "react";
+import * as THREE from "three";
+import { COLORS } from "./utils";
+
+// Imperative access to the drawn jumps, so playback can add segments
+// without re-rendering the canvas
+export interface JumpLinesHandle {
+  add: (from: number[], to: number[]) => void;
+  setAll: (segments: [number[], number[]][]) => void;
+  clear: () => void;
+}
+
+interface JumpLinesProps {
+  linesRef: React.MutableRefObject<JumpLinesHandle | null>;
+  cellSize: number;
+  // Height of the segments, level with the spheres
+  height: number;
+}
+
+const INITIAL_CAPACITY = 256;
+
+// Straight jumps between Jump Point Search nodes, drawn as one LineSegments
+const JumpLines: React.FC<JumpLinesProps> = ({
+  linesRef,
+  cellSize,
+  height,
+}) => {
+  const geometry = useMemo(() => new THREE.BufferGeometry(), []);
+  const material = useMemo(
+    () =>
+      new THREE.LineBasicMaterial({
+        color: COLORS.JUMP_POINT,
+        transparent: true,
+        opacity: 0.8,
+      }),
+    []
+  );
+
+  useEffect(() => {
+    let positions = new Float32Array(INITIAL_CAPACITY * 6);
+    let count = 0;
+
+    const upload = () => {
+      geometry.setAttribute(
+        "position",
+        new THREE.BufferAttribute(positions, 3)
+      );
+      geometry.setDrawRange(0, count * 2);
+    };
+
+    const write = ([fx, fy]: number[], [tx, ty]: number[]) => {
+      if ((count + 1) * 6 > positions.length) {
+        const grown = new Float32Array(positions.length * 2);
+        grown.set(positions);
+        positions = grown;
+      }
+      positions.set(
+        [
+          fx * cellSize,
+          height,
+          fy * cellSize,
+          tx * cellSize,
+          height,
+          ty * cellSize,
+        ],
+        count * 6
+      );
+      count++;
+    };
+
+    upload();
+    linesRef.current = {
+      add: (from, to) => {
+        write(from, to);
+        upload();
+      },
+      setAll: (segments) => {
+        count = 0;
+        segments.forEach(([from, to]) => write(from, to));
+        upload();
+      },
+      clear: () => {
+        count = 0;
+        geometry.setDrawRange(0, 0);
+      },
+    };
+
+    return () => {
+      linesRef.current = null;
+    };
+  }, [geometry, linesRef, cellSize, height]);
+
+  useEffect(
+    () => () => {
+      geometry.dispose();
+      material.dispose();
+    },
+    [geometry, material]
+  );
+
+  return <lineSegments geometry={geometry} material={material} />;
+};
+
+export default JumpLines;
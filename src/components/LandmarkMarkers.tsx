@@ -0,0 +1,50 @@
+import { useMemo, useRef, useEffect } from "react";
+import * as THREE from "three";
+import { COLORS } from "./utils";
+
+interface LandmarkMarkersProps {
+  landmarks: number[][];
+  cellSize?: number;
+  layerSpacing?: number;
+}
+
+// Flat rings around the ALT landmarks, one instanced draw call for all layers
+export default function LandmarkMarkers({
+  landmarks,
+  cellSize = 1,
+  layerSpacing = 10,
+}: LandmarkMarkersProps) {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+
+  useEffect(() => {
+    if (!meshRef.current) return;
+
+    const dummy = new THREE.Object3D();
+    dummy.rotation.x = -Math.PI / 2;
+
+    landmarks.forEach(([x, y, z = 0], i) => {
+      dummy.position.set(x * cellSize, z * layerSpacing + 0.05, y * cellSize);
+      dummy.updateMatrix();
+      meshRef.current!.setMatrixAt(i, dummy.matrix);
+    });
+
+    meshRef.current.instanceMatrix.needsUpdate = true;
+  }, [landmarks, cellSize, layerSpacing]);
+
+  const material = useMemo(
+    () =>
+      new THREE.MeshBasicMaterial({
+        color: COLORS.LANDMARK,
+        side: THREE.DoubleSide,
+      }),
+    []
+  );
+
+  if (landmarks.length === 0) return null;
+
+  return (
+    <instancedMesh ref={meshRef} args={[undefined, material, landmarks.length]}>
+      <ringGeometry args={[cellSize * 0.38, cellSize * 0.48, 24]} />
+    </instancedMesh>
+  );
+}
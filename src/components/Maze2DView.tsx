@@ -3,22 +3,56 @@ import { Canvas, useFrame } from "@react-three/fiber";
 import { OrthographicCamera, OrbitControls } from "@react-three/drei";
 import * as THREE from "three";
 import MazeWalls from "./Wall";
+import MazeTerrain from "./Terrain";
 import BackgroundParticles from "./backgroundParticles";
 import InstancedSciFiSpheres from "./SciFiSphere";
+import TimelineScrubber from "./TimelineScrubber";
+import JumpLines from "./JumpLines";
+import TeleporterArcs from "./TeleporterArcs";
+import OneWayGlyphs from "./OneWayGlyphs";
+import WrapGhosts from "./WrapGhosts";
+import CellEditor from "./Cell";
+import EditorToolbar from "./EditorToolbar";
 import { useMazeAlgorithm } from "@/hooks/useMazeAlgorithm";
-import type { MazeSettings, MazeStats } from "@/App";
+import { useMazeGeneration } from "@/hooks/useMazeGeneration";
+import { brushColors } from "@/hooks/useMazeEditor";
+import type { MazeEditor } from "@/hooks/useMazeEditor";
+import type { MazeSettings, MazeStats, StepDirection } from "@/App";
+import { COLORS, HEX_ROW_SPACING, cellCenter } from "./utils";
+import type { GenerationEvent } from "./utils";
 
 interface Maze2DViewProps {
   maze: number[][];
   settings: MazeSettings;
   isRunning: boolean;
   setIsRunning: React.Dispatch<React.SetStateAction<boolean>>;
+  isPaused: boolean;
+  setIsPaused: React.Dispatch<React.SetStateAction<boolean>>;
+  stepRequest: StepDirection | null;
+  setStepRequest: React.Dispatch<React.SetStateAction<StepDirection | null>>;
   stats: MazeStats | null;
   setStats: React.Dispatch<React.SetStateAction<MazeStats | null>>;
   shouldReset: boolean;
   setShouldReset: React.Dispatch<React.SetStateAction<boolean>>;
+  // Size of the canvas container, full screen by default
+  className?: string;
+  // Camera zoom relative to a full-screen canvas
+  zoomScale?: number;
+  // Recorded generation of `maze`, replayed when animateGeneration is on
+  generationSteps?: GenerationEvent[];
+  setIsGenerating?: React.Dispatch<React.SetStateAction<boolean>>;
+  // Hand editing of `maze`; the view is read-only without it
+  editor?: MazeEditor;
 }
 
+const toHex = (color: number) => `#${color.toString(16).padStart(6, "0")}`;
+
+const GENERATION_LEGEND = [
+  { color: COLORS.CARVED, label: "Carved" },
+  { color: COLORS.FRONTIER, label: "Frontier" },
+  { color: COLORS.OPENING, label: "Extra opening" },
+];
+
 // Component to trigger re-renders during animation
 const AutoInvalidate: React.FC<{ isRunning: boolean }> = ({ isRunning }) => {
   useFrame(({ invalidate }) => {
@@ -31,20 +65,43 @@ const AutoInvalidate: React.FC<{ isRunning: boolean }> = ({ isRunning }) => {
 
 export default function Maze2DView(props: Maze2DViewProps) {
   const cellSize = 1;
-  const { sphereRefs, nodes } = useMazeAlgorithm({
+  const topology = props.settings.topology;
+  const {
+    sphereRefs,
+    sphereBufferRef,
+    jumpLinesRef,
+    nodes,
+    timeline,
+    paintNode,
+    resetColors,
+  } = useMazeAlgorithm({
     ...props,
     viewType: "2D",
   });
 
+  const { grid, progress } = useMazeGeneration({
+    maze: props.maze,
+    steps: props.generationSteps,
+    enabled: props.settings.animateGeneration,
+    animationSpeed: props.settings.animationSpeed,
+    paintNode,
+    resetColors,
+    setIsGenerating: props.setIsGenerating,
+  });
+  // Walls and terrain follow the replay while it runs
+  const shownMaze = grid ?? props.maze;
+  const editor = props.editor;
+  const editingLocked = props.isRunning || grid !== null;
+  const brush = editingLocked ? null : (editor?.brush ?? null);
+
   // Pre-computed positions for sci-fi spheres
   const spherePositions = useMemo(
     () =>
-      nodes.map(([x, y]) => ({
-        x: x * cellSize,
-        y: 1,
-        z: y * cellSize,
-      })),
-    [nodes, cellSize]
+      nodes.map(([x, y]) => {
+        const [cx, cz] = cellCenter(x, y, topology);
+        return { x: cx * cellSize, y: 1, z: cz * cellSize };
+      }),
+    [nodes, cellSize, topology]
   );
 
   // Shared materials for better performance
@@ -57,7 +114,7 @@ export default function Maze2DView(props: Maze2DViewProps) {
   );
 
   return (
-    <div className="relative w-screen h-screen">
+    <div className={`relative ${props.className ?? "w-screen h-screen"}`}>
       <Canvas
         style={{ width: "100%", height: "100%", background: "#050505" }}
         gl={{
@@ -70,10 +127,14 @@ export default function Maze2DView(props: Maze2DViewProps) {
           position={[
             props.settings.mazeWidth / 2,
             Math.max(props.settings.mazeWidth, props.settings.mazeHeight) * 1.5,
-            props.settings.mazeHeight / 2,
+            (props.settings.mazeHeight *
+              (topology === "hex" ? HEX_ROW_SPACING : 1)) /
+              2,
           ]}
           zoom={
-            Math.min(props.settings.mazeWidth, props.settings.mazeHeight) * 2.5
+            Math.min(props.settings.mazeWidth, props.settings.mazeHeight) *
+            2.5 *
+            (props.zoomScale ?? 1)
           }
         />
 
@@ -82,20 +143,72 @@ export default function Maze2DView(props: Maze2DViewProps) {
 
         <BackgroundParticles count={50000} spread={100} color={0x32cd32} />
 
-        <MazeWalls maze={props.maze} cellSize={cellSize} />
+        <MazeWalls maze={shownMaze} cellSize={cellSize} topology={topology} />
+        <MazeTerrain maze={shownMaze} cellSize={cellSize} topology={topology} />
+        {/* The opposite edges of a torus, copied around its border */}
+        {topology === "torus" && (
+          <WrapGhosts maze={shownMaze} cellSize={cellSize} />
+        )}
+        <OneWayGlyphs
+          maze={shownMaze}
+          cellSize={cellSize}
+          topology={topology}
+        />
+        <TeleporterArcs
+          maze={shownMaze}
+          cellSize={cellSize}
+          topology={topology}
+        />
 
         {/* Instanced Sci-Fi Spheres - Single draw call */}
         <InstancedSciFiSpheres
           nodes={nodes as [number, number][]}
           positions={spherePositions}
           sphereRefs={sphereRefs}
+          colorBufferRef={sphereBufferRef}
         />
 
-        <OrbitControls makeDefault />
+        {/* Straight jumps between Jump Point Search nodes */}
+        <JumpLines linesRef={jumpLinesRef} cellSize={cellSize} height={1} />
+
+        {/* Editing layer; the camera stays put while a brush is active */}
+        {editor && brush && (
+          <CellEditor
+            columns={props.maze[0].length}
+            rows={props.maze.length}
+            cellSize={cellSize}
+            topology={topology}
+            hoverColor={brushColors[brush]}
+            onStrokeStart={editor.beginStroke}
+            onStrokeMove={editor.continueStroke}
+            onStrokeEnd={editor.endStroke}
+          />
+        )}
+
+        <OrbitControls makeDefault enabled={!brush} />
 
         {/* Auto-invalidate on changes */}
         <AutoInvalidate isRunning={props.isRunning} />
       </Canvas>
+      <TimelineScrubber timeline={timeline} />
+      {editor && <EditorToolbar editor={editor} disabled={editingLocked} />}
+
+      {progress && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-black/80 backdrop-blur-sm px-6 py-3 rounded-full border border-white/20 text-white z-10 flex items-center gap-4 text-sm">
+          <span className="text-yellow-400">
+            Generating maze… {progress.done} / {progress.total} steps
+          </span>
+          {GENERATION_LEGEND.map(({ color, label }) => (
+            <span key={label} className="flex items-center gap-1 text-xs">
+              <span
+                className="inline-block w-3 h-3 rounded-full"
+                style={{ backgroundColor: toHex(color) }}
+              ></span>
+              {label}
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -2,41 +2,74 @@ import React, { useMemo, useRef } from "react";
 import { Canvas } from "@react-three/fiber";
 import { OrbitControls, OrthographicCamera } from "@react-three/drei";
 import MazeWalls from "./Wall";
+import MazeTerrain from "./Terrain";
 import InstancedSciFiSpheres from "./SciFiSphere";
 
 import { useMazeAlgorithm } from "@/hooks/useMazeAlgorithm";
-import type { MazeStats, MazeSettings } from "@/App";
+import type { MazeStats, MazeSettings, StepDirection } from "@/App";
 import type { Connection } from "./InstancedElevatorThreads";
-import { CELL_TYPES } from "./utils";
+import { selectLandmarks } from "./utils";
+import type { PortalMap } from "./utils";
 import InstancedElevatorThreads from "./InstancedElevatorThreads";
+import TeleporterArcs from "./TeleporterArcs";
+import OneWayGlyphs from "./OneWayGlyphs";
 import Floor from "./Floor";
 import BackgroundParticles from "./backgroundParticles";
+import TimelineScrubber from "./TimelineScrubber";
+import LandmarkMarkers from "./LandmarkMarkers";
+import CellEditor from "./Cell";
+import EditorToolbar from "./EditorToolbar";
+import { brushColors } from "@/hooks/useMazeEditor";
+import type { MazeEditor3D } from "@/hooks/useMazeEditor";
 
 interface Maze3DViewProps {
   maze3D: number[][][];
+  // Elevators between the layers of `maze3D`
+  portals: PortalMap;
   settings: MazeSettings;
   isRunning: boolean;
   setIsRunning: React.Dispatch<React.SetStateAction<boolean>>;
+  isPaused: boolean;
+  setIsPaused: React.Dispatch<React.SetStateAction<boolean>>;
+  stepRequest: StepDirection | null;
+  setStepRequest: React.Dispatch<React.SetStateAction<StepDirection | null>>;
   stats: MazeStats | null;
   setStats: React.Dispatch<React.SetStateAction<MazeStats | null>>;
   shouldReset: boolean;
   setShouldReset: React.Dispatch<React.SetStateAction<boolean>>;
+  // Size of the canvas container, full screen by default
+  className?: string;
+  // Camera zoom relative to a full-screen canvas
+  zoomScale?: number;
+  // Hand editing of `maze3D`, one layer at a time; read-only without it
+  editor?: MazeEditor3D;
 }
 
 const Maze3DView: React.FC<Maze3DViewProps> = (props) => {
   const cellSize = 1;
   const layerSpacing = 10;
 
-  const { sphereRefs, threadRefs, nodes } = useMazeAlgorithm({
-    maze: props.maze3D,
-    settings: props.settings,
-    isRunning: props.isRunning,
-    setIsRunning: props.setIsRunning,
-    setStats: props.setStats,
-    shouldReset: props.shouldReset,
-    setShouldReset: props.setShouldReset,
-    viewType: "3D",
-  });
+  const { sphereRefs, sphereBufferRef, threadRefs, nodes, timeline } =
+    useMazeAlgorithm({
+      maze: props.maze3D,
+      portals: props.portals,
+      settings: props.settings,
+      isRunning: props.isRunning,
+      setIsRunning: props.setIsRunning,
+      isPaused: props.isPaused,
+      setIsPaused: props.setIsPaused,
+      stepRequest: props.stepRequest,
+      setStepRequest: props.setStepRequest,
+      setStats: props.setStats,
+      shouldReset: props.shouldReset,
+      setShouldReset: props.setShouldReset,
+      viewType: "3D",
+    });
+
+  const editor = props.editor;
+  const brush = props.isRunning ? null : (editor?.brush ?? null);
+  // Layers above the edited one are hidden so it can be seen from above
+  const hidden = (z: number) => !!editor && !!brush && z > editor.layer;
 
   // Pre-computed positions for sci-fi spheres
   const spherePositions = useMemo(
@@ -58,42 +91,27 @@ const Maze3DView: React.FC<Maze3DViewProps> = (props) => {
     []
   );
 
-  const portalPositions = useMemo(() => {
-    const positions: { type: "UP" | "DOWN"; pos: [number, number, number] }[] =
-      [];
-    nodes.forEach(([x, y, z]) => {
-      const cell = props.maze3D[z]?.[y]?.[x];
-      if (cell === CELL_TYPES.PORTAL_UP) {
-        positions.push({ type: "UP", pos: [x, y, z] });
-      } else if (cell === CELL_TYPES.PORTAL_DOWN) {
-        positions.push({ type: "DOWN", pos: [x, y, z] });
-      }
-    });
-    return positions;
-  }, [props.maze3D, nodes]);
-  const elevatorConnections = useMemo(() => {
-    const connections: Connection[] = [];
-
-    portalPositions.forEach((portal) => {
-      if (portal.type === "UP") {
-        const [x, y, z] = portal.pos;
-        const downPortal = portalPositions.find(
-          (p) => p.type === "DOWN" && p.pos[2] === z + 1
-        );
-        if (downPortal) {
-          connections.push({
-            from: [x, y, z * layerSpacing + cellSize],
-            to: [
-              downPortal.pos[0],
-              downPortal.pos[1],
-              downPortal.pos[2] * layerSpacing + cellSize,
-            ],
-          });
-        }
-      }
-    });
-    return connections;
-  }, [portalPositions]);
+  // One thread per elevator, from its PORTAL_UP end to its PORTAL_DOWN end
+  const elevatorConnections = useMemo(
+    () =>
+      props.portals.links.map(({ from, to }): Connection => ({
+        from: [from[0], from[1], from[2] * layerSpacing + cellSize],
+        to: [to[0], to[1], to[2] * layerSpacing + cellSize],
+      })),
+    [props.portals]
+  );
+
+  // Same landmarks the ALT heuristic precomputes distances from
+  const landmarks = useMemo(
+    () =>
+      props.settings.heuristic === "alt"
+        ? selectLandmarks(props.maze3D, "3D", {
+            portals: props.portals,
+            topology: "square",
+          })
+        : [],
+    [props.maze3D, props.portals, props.settings.heuristic]
+  );
 
   const mazeWidthWorld = props.settings.mazeWidth * cellSize;
   const mazeDepthWorld = props.settings.mazeHeight * cellSize;
@@ -112,7 +130,7 @@ const Maze3DView: React.FC<Maze3DViewProps> = (props) => {
   );
 
   return (
-    <div className="w-screen h-screen">
+    <div className={`relative ${props.className ?? "w-screen h-screen"}`}>
       <Canvas
         style={{ width: "100%", height: "100%", background: "#050505" }}
         gl={{
@@ -126,34 +144,79 @@ const Maze3DView: React.FC<Maze3DViewProps> = (props) => {
         <OrthographicCamera
           makeDefault
           position={[center[0], center[1] + maxDimension, center[2]]}
-          zoom={Math.min(mazeWidthWorld, mazeDepthWorld) * 0.8}
+          zoom={
+            Math.min(mazeWidthWorld, mazeDepthWorld) *
+            0.8 *
+            (props.zoomScale ?? 1)
+          }
           near={-maxDimension * 2}
           far={maxDimension * 2}
         />
-        <OrbitControls makeDefault />
+        <OrbitControls makeDefault enabled={!brush} />
         {/* Walls for all layers */}
-        {props.maze3D.map((maze, z) => (
-          <MazeWalls
-            key={`walls-${z}`}
-            maze={maze}
-            cellSize={cellSize}
-            verticalOffset={z * layerSpacing}
-          />
-        ))}
-        {props.maze3D.map((maze, z) => (
-          <Floor
-            key={`floor-${z}`}
-            width={props.settings.mazeWidth}
-            height={props.settings.mazeHeight}
-            cellSize={cellSize}
-            zIndex={z * layerSpacing}
-          />
-        ))}
+        {props.maze3D.map((maze, z) =>
+          hidden(z) ? null : (
+            <MazeWalls
+              key={`walls-${z}`}
+              maze={maze}
+              cellSize={cellSize}
+              verticalOffset={z * layerSpacing}
+            />
+          )
+        )}
+        {props.maze3D.map((maze, z) =>
+          hidden(z) ? null : (
+            <MazeTerrain
+              key={`terrain-${z}`}
+              maze={maze}
+              cellSize={cellSize}
+              verticalOffset={z * layerSpacing}
+            />
+          )
+        )}
+        {props.maze3D.map((maze, z) =>
+          hidden(z) ? null : (
+            <OneWayGlyphs
+              key={`one-way-${z}`}
+              maze={maze}
+              cellSize={cellSize}
+              verticalOffset={z * layerSpacing}
+            />
+          )
+        )}
+        {props.maze3D.map((maze, z) =>
+          hidden(z) ? null : (
+            <Floor
+              key={`floor-${z}`}
+              width={props.settings.mazeWidth}
+              height={props.settings.mazeHeight}
+              cellSize={cellSize}
+              zIndex={z * layerSpacing}
+            />
+          )
+        )}
+        {props.maze3D.map((maze, z) =>
+          hidden(z) ? null : (
+            <TeleporterArcs
+              key={`teleporters-${z}`}
+              maze={maze}
+              cellSize={cellSize}
+              elevation={z * layerSpacing + cellSize}
+            />
+          )
+        )}
         {/* Instanced Sci-Fi Spheres - Single draw call */}
         <InstancedSciFiSpheres
           nodes={nodes as [number, number, number][]}
           positions={spherePositions}
           sphereRefs={sphereRefs}
+          colorBufferRef={sphereBufferRef}
+        />
+
+        <LandmarkMarkers
+          landmarks={landmarks}
+          cellSize={cellSize}
+          layerSpacing={layerSpacing}
         />
 
         <InstancedElevatorThreads
@@ -161,8 +224,24 @@ const Maze3DView: React.FC<Maze3DViewProps> = (props) => {
           threadRefs={threadRefs}
         />
 
+        {/* Editing surface on top of the edited layer's walls */}
+        {editor && brush && props.maze3D[editor.layer] && (
+          <CellEditor
+            columns={props.maze3D[editor.layer][0].length}
+            rows={props.maze3D[editor.layer].length}
+            cellSize={cellSize}
+            elevation={editor.layer * layerSpacing + cellSize}
+            hoverColor={brushColors[brush]}
+            onStrokeStart={editor.beginStroke}
+            onStrokeMove={editor.continueStroke}
+            onStrokeEnd={editor.endStroke}
+          />
+        )}
+
         <BackgroundParticles count={50000} spread={750} color={0x32cd32} />
       </Canvas>
+      <TimelineScrubber timeline={timeline} />
+      {editor && <EditorToolbar editor={editor} disabled={props.isRunning} />}
     </div>
   );
 };
@@ -0,0 +1,119 @@
+import { useEffect, useMemo, useRef } from "react";
+import * as THREE from "three";
+import { CELL_TYPES, COLORS, CONVEYOR_DIRECTIONS, cellCenter } from "./utils";
+import type { Topology } from "./utils";
+
+interface OneWayGlyphsProps {
+  maze: number[][];
+  cellSize?: number;
+  verticalOffset?: number;
+  topology?: Topology;
+}
+
+// Flat arrow pointing along +x, lying on the floor
+function createArrowGeometry(cellSize: number) {
+  const shape = new THREE.Shape()
+    .moveTo(-0.4, -0.08)
+    .lineTo(0.05, -0.08)
+    .lineTo(0.05, -0.22)
+    .lineTo(0.42, 0)
+    .lineTo(0.05, 0.22)
+    .lineTo(0.05, 0.08)
+    .lineTo(-0.4, 0.08)
+    .closePath();
+  const geometry = new THREE.ShapeGeometry(shape);
+  geometry.scale(cellSize, cellSize, 1);
+  geometry.rotateX(-Math.PI / 2);
+  return geometry;
+}
+
+/**
+ * Arrows on conveyor cells and rings around drop holes, marking the moves of
+ * a layer that only go one way. One instanced draw call per glyph kind.
+ */
+export default function OneWayGlyphs({
+  maze,
+  cellSize = 1,
+  verticalOffset = 0,
+  topology = "square",
+}: OneWayGlyphsProps) {
+  const arrowsRef = useRef<THREE.InstancedMesh>(null);
+  const holesRef = useRef<THREE.InstancedMesh>(null);
+
+  const arrowGeometry = useMemo(
+    () => createArrowGeometry(cellSize),
+    [cellSize]
+  );
+  useEffect(() => () => arrowGeometry.dispose(), [arrowGeometry]);
+
+  const { arrows, holes } = useMemo(() => {
+    const arrows: { at: [number, number]; angle: number }[] = [];
+    const holes: [number, number][] = [];
+    maze.forEach((row, y) =>
+      row.forEach((cell, x) => {
+        const at = cellCenter(x, y, topology);
+        const direction = CONVEYOR_DIRECTIONS[cell];
+        // Turns +x towards the centre of the cell the conveyor leads to;
+        // grid y runs along +z
+        if (direction) {
+          const [tx, tz] = cellCenter(
+            x + direction[0],
+            y + direction[1],
+            topology
+          );
+          arrows.push({ at, angle: Math.atan2(at[1] - tz, tx - at[0]) });
+        }
+        if (cell === CELL_TYPES.DROP_HOLE) holes.push(at);
+      })
+    );
+    return { arrows, holes };
+  }, [maze, topology]);
+
+  useEffect(() => {
+    const dummy = new THREE.Object3D();
+    if (arrowsRef.current) {
+      arrows.forEach(({ at: [x, z], angle }, i) => {
+        dummy.position.set(x * cellSize, verticalOffset + 0.05, z * cellSize);
+        dummy.rotation.set(0, angle, 0);
+        dummy.updateMatrix();
+        arrowsRef.current!.setMatrixAt(i, dummy.matrix);
+      });
+      arrowsRef.current.instanceMatrix.needsUpdate = true;
+    }
+    if (holesRef.current) {
+      holes.forEach(([x, z], i) => {
+        dummy.position.set(x * cellSize, verticalOffset + 0.05, z * cellSize);
+        dummy.rotation.set(-Math.PI / 2, 0, 0);
+        dummy.updateMatrix();
+        holesRef.current!.setMatrixAt(i, dummy.matrix);
+      });
+      holesRef.current.instanceMatrix.needsUpdate = true;
+    }
+  }, [arrows, holes, cellSize, verticalOffset]);
+
+  return (
+    <>
+      {arrows.length > 0 && (
+        <instancedMesh
+          ref={arrowsRef}
+          args={[arrowGeometry, undefined, arrows.length]}
+        >
+          <meshBasicMaterial color={COLORS.CONVEYOR} toneMapped={false} />
+        </instancedMesh>
+      )}
+      {holes.length > 0 && (
+        <instancedMesh
+          ref={holesRef}
+          args={[undefined, undefined, holes.length]}
+        >
+          <ringGeometry args={[cellSize * 0.25, cellSize * 0.45, 24]} />
+          <meshBasicMaterial
+            color={COLORS.DROP_HOLE}
+            side={THREE.DoubleSide}
+            toneMapped={false}
+          />
+        </instancedMesh>
+      )}
+    </>
+  );
+}
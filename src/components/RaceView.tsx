@@ -0,0 +1,277 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Trophy } from "lucide-react";
+import Maze2DView from "./Maze2DView";
+import Maze3DView from "./Maze3DView";
+import { algorithmNames } from "./utils";
+import type { PortalMap } from "./utils";
+import type { Algorithm, MazeSettings, MazeStats, StepDirection } from "@/App";
+
+interface RaceViewProps {
+  maze: number[][];
+  maze3D: number[][][];
+  portals: PortalMap;
+  settings: MazeSettings;
+  isRunning: boolean;
+  setIsRunning: React.Dispatch<React.SetStateAction<boolean>>;
+  isPaused: boolean;
+  setIsPaused: React.Dispatch<React.SetStateAction<boolean>>;
+  stepRequest: StepDirection | null;
+  setStepRequest: React.Dispatch<React.SetStateAction<StepDirection | null>>;
+  setStats: React.Dispatch<React.SetStateAction<MazeStats | null>>;
+  shouldReset: boolean;
+  setShouldReset: React.Dispatch<React.SetStateAction<boolean>>;
+}
+
+interface RaceLaneProps extends Omit<
+  RaceViewProps,
+  "setIsRunning" | "setStats"
+> {
+  lane: number;
+  algorithm: Algorithm;
+  // 1-based finishing place, once the lane has finished
+  place: number | null;
+  isWinner: boolean;
+  onStop: (lane: number, stats: MazeStats | null) => void;
+}
+
+// Finishing places only go up to the four lanes
+const ordinal = (n: number) => ["1st", "2nd", "3rd", "4th"][n - 1] ?? `${n}th`;
+
+// One canvas of the race. The race decides when the lane runs; the lane only
+// reports back when its search stops, with the stats it stopped on.
+function RaceLane({
+  lane,
+  algorithm,
+  place,
+  isWinner,
+  onStop,
+  settings,
+  maze,
+  maze3D,
+  portals,
+  isRunning,
+  setIsPaused,
+  ...shared
+}: RaceLaneProps) {
+  const [stats, setStats] = useState<MazeStats | null>(null);
+  // Latest stats, readable in the same tick the hook stops the run
+  const statsRef = useRef<MazeStats | null>(null);
+
+  const laneSettings = useMemo(
+    () => ({ ...settings, algorithm }),
+    [settings, algorithm]
+  );
+
+  const setLaneStats: React.Dispatch<React.SetStateAction<MazeStats | null>> = (
+    action
+  ) => {
+    statsRef.current =
+      typeof action === "function" ? action(statsRef.current) : action;
+    setStats(statsRef.current);
+  };
+
+  const setLaneRunning: React.Dispatch<React.SetStateAction<boolean>> = (
+    action
+  ) => {
+    const next = typeof action === "function" ? action(isRunning) : action;
+    if (!next) onStop(lane, statsRef.current);
+  };
+
+  // A lane's hook unpauses when its search finishes, fails or resets, which
+  // must not resume the other lanes; only the main controls resume a race.
+  // Scrubbing a lane's timeline may still pause it.
+  const setLanePaused: React.Dispatch<React.SetStateAction<boolean>> = (
+    action
+  ) => {
+    const next =
+      typeof action === "function" ? action(shared.isPaused) : action;
+    if (next) setIsPaused(true);
+  };
+
+  const viewProps = {
+    ...shared,
+    settings: laneSettings,
+    isRunning,
+    setIsRunning: setLaneRunning,
+    setIsPaused: setLanePaused,
+    // The main controls set and clear the reset flag
+    setShouldReset: () => {},
+    stats,
+    setStats: setLaneStats,
+    className: "w-full h-full",
+    zoomScale: 0.5,
+  };
+
+  return (
+    <div
+      className={`relative min-h-0 min-w-0 overflow-hidden border ${
+        isWinner ? "border-yellow-400" : "border-white/10"
+      }`}
+    >
+      {settings.viewType === "2D" ? (
+        <Maze2DView maze={maze} {...viewProps} />
+      ) : (
+        <Maze3DView maze3D={maze3D} portals={portals} {...viewProps} />
+      )}
+
+      <div className="absolute top-2 left-2 bg-black/80 backdrop-blur-sm px-3 py-2 rounded-lg border border-white/20 text-white text-sm space-y-1 pointer-events-none">
+        <p className="font-bold flex items-center gap-1">
+          {isWinner && <Trophy className="w-4 h-4 text-yellow-400" />}
+          {algorithmNames[algorithm]}
+        </p>
+        <p>
+          {isRunning ? (
+            <span className="text-yellow-400">Searching…</span>
+          ) : place !== null ? (
+            <span
+              className={stats?.success ? "text-green-400" : "text-red-400"}
+            >
+              {ordinal(place)} · {stats?.success ? "Path Found ✓" : "No Path ✗"}
+            </span>
+          ) : (
+            <span className="text-zinc-400">Ready</span>
+          )}
+        </p>
+        {stats && (
+          <>
+            <p>
+              Nodes Visited:{" "}
+              <span className="text-blue-400">{stats.nodesVisited}</span>
+            </p>
+            {stats.success && (
+              <p>
+                Path Length:{" "}
+                <span className="text-purple-400">{stats.pathLength}</span>
+                {stats.pathCost !== undefined && (
+                  <> · Cost {Math.round(stats.pathCost * 100) / 100}</>
+                )}
+              </p>
+            )}
+            {stats.fallback && (
+              <p className="text-yellow-400">Ran as plain A*</p>
+            )}
+            {stats.limitReached && (
+              <p className="text-yellow-400">Gave up at expansion limit</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Race layout: two to four lanes run different algorithms on the same maze.
+ * Lanes share pause, step and reset with the main controls and all start on
+ * the same render, so their playback stays in step. The first lane to finish
+ * with a path wins, and its stats become the run's stats.
+ */
+export default function RaceView({
+  settings,
+  isRunning,
+  setIsRunning,
+  setStats,
+  ...shared
+}: RaceViewProps) {
+  const lanes = settings.raceAlgorithms;
+  const [raceActive, setRaceActive] = useState(false);
+  const [raceId, setRaceId] = useState(0);
+  const [stopped, setStopped] = useState<ReadonlySet<number>>(new Set());
+  const [laneStats, setLaneStats] = useState<(MazeStats | null)[]>([]);
+  const [finishOrder, setFinishOrder] = useState<number[]>([]);
+
+  // Start a fresh race when a run begins, and drop it on reset. Adjusting
+  // state while rendering means lanes never see the previous race's state.
+  const [prevIsRunning, setPrevIsRunning] = useState(isRunning);
+  const [prevShouldReset, setPrevShouldReset] = useState(shared.shouldReset);
+  if (isRunning !== prevIsRunning || shared.shouldReset !== prevShouldReset) {
+    setPrevIsRunning(isRunning);
+    setPrevShouldReset(shared.shouldReset);
+    if ((isRunning && !prevIsRunning) || shared.shouldReset) {
+      const starting = isRunning && !shared.shouldReset;
+      setRaceActive(starting);
+      if (starting) setRaceId((id) => id + 1);
+      setStopped(new Set());
+      setLaneStats([]);
+      setFinishOrder([]);
+    }
+  }
+
+  // A lane stopping outside a race is a reset, not a finish
+  const handleStop = (lane: number, stats: MazeStats | null) => {
+    if (!raceActive) return;
+    setStopped((prev) => (prev.has(lane) ? prev : new Set(prev).add(lane)));
+    setLaneStats((prev) => {
+      const next = [...prev];
+      next[lane] = stats;
+      return next;
+    });
+    if (stats) {
+      setFinishOrder((prev) => (prev.includes(lane) ? prev : [...prev, lane]));
+    }
+  };
+
+  // Later finishers can't overtake, so the winner is known on arrival
+  const winner = finishOrder.find((lane) => laneStats[lane]?.success);
+  const raceOver = raceActive && stopped.size >= lanes.length;
+
+  // The previous race's results stay up until the next one starts
+  useEffect(() => {
+    if (raceId > 0) setStats(null);
+  }, [raceId, setStats]);
+
+  useEffect(() => {
+    if (!raceOver) return;
+    setStats(winner !== undefined ? laneStats[winner] : null);
+    setIsRunning(false);
+  }, [raceOver, winner, laneStats, setStats, setIsRunning]);
+
+  return (
+    <div className="relative w-screen h-screen bg-[#050505] pt-16">
+      <div
+        className={`grid w-full h-full grid-cols-2 ${
+          lanes.length > 2 ? "grid-rows-2" : "grid-rows-1"
+        }`}
+      >
+        {lanes.map((algorithm, lane) => {
+          const place = finishOrder.indexOf(lane);
+          return (
+            <RaceLane
+              key={lane}
+              lane={lane}
+              algorithm={algorithm}
+              isRunning={raceActive && isRunning && !stopped.has(lane)}
+              place={place === -1 ? null : place + 1}
+              isWinner={lane === winner}
+              onStop={handleStop}
+              settings={settings}
+              {...shared}
+            />
+          );
+        })}
+      </div>
+
+      {finishOrder.length > 0 && (
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-black/80 backdrop-blur-sm px-4 py-2 rounded-lg border border-white/20 text-white text-sm z-10 flex items-center gap-3">
+          {winner !== undefined ? (
+            <span className="flex items-center gap-1 font-bold text-yellow-400">
+              <Trophy className="w-4 h-4" />
+              {algorithmNames[lanes[winner]]}
+            </span>
+          ) : (
+            raceOver && (
+              <span className="text-red-400 font-bold">No winner</span>
+            )
+          )}
+          <span className="text-zinc-300">
+            {finishOrder
+              .map(
+                (lane, i) => `${ordinal(i + 1)} ${algorithmNames[lanes[lane]]}`
+              )
+              .join(" · ")}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
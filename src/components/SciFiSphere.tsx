@@ -2,16 +2,23 @@ import React, { useRef, useMemo, useEffect } from "react";
 import * as THREE from "three";
 import { useFrame } from "@react-three/fiber";
 
+// Bulk access to the instance color buffers, keyed like sphereRefs
+export interface SphereColorBuffer {
+  paintAll: (colors: Map<string, number>) => void;
+}
+
 interface InstancedSciFiSpheresProps {
   nodes: number[][];
   positions: { x: number; y: number; z: number }[];
   sphereRefs: React.MutableRefObject<Map<string, any>>;
+  colorBufferRef?: React.MutableRefObject<SphereColorBuffer | null>;
 }
 
 const InstancedSciFiSpheres: React.FC<InstancedSciFiSpheresProps> = ({
   nodes,
   positions,
   sphereRefs,
+  colorBufferRef,
 }) => {
   const glassRef = useRef<THREE.InstancedMesh>(null);
   const liquidRef = useRef<THREE.InstancedMesh>(null);
@@ -173,7 +180,10 @@ const InstancedSciFiSpheres: React.FC<InstancedSciFiSpheresProps> = ({
 
   // Register paint functions
   useEffect(() => {
-    const paintInstance = (index: number, colorHex: number) => {
+    const color = new THREE.Color();
+
+    // Writes one instance's colors without flagging the buffers for upload
+    const writeInstance = (index: number, colorHex: number) => {
       if (colorHex === 0) {
         // Make invisible
         visibilityArray[index] = 0;
@@ -182,24 +192,24 @@ const InstancedSciFiSpheres: React.FC<InstancedSciFiSpheresProps> = ({
         color1Array[index * 3 + 2] = 0;
       } else {
         // Set color and make visible
-        const color = new THREE.Color(colorHex);
+        color.setHex(colorHex);
         visibilityArray[index] = 1;
 
         color1Array[index * 3] = color.r;
         color1Array[index * 3 + 1] = color.g;
         color1Array[index * 3 + 2] = color.b;
 
-        const color2 = color.clone().multiplyScalar(0.66);
-        color2Array[index * 3] = color2.r;
-        color2Array[index * 3 + 1] = color2.g;
-        color2Array[index * 3 + 2] = color2.b;
+        color2Array[index * 3] = color.r * 0.66;
+        color2Array[index * 3 + 1] = color.g * 0.66;
+        color2Array[index * 3 + 2] = color.b * 0.66;
 
-        const glowColor = color.clone().multiplyScalar(1.5);
-        glowColorArray[index * 3] = glowColor.r;
-        glowColorArray[index * 3 + 1] = glowColor.g;
-        glowColorArray[index * 3 + 2] = glowColor.b;
+        glowColorArray[index * 3] = color.r * 1.5;
+        glowColorArray[index * 3 + 1] = color.g * 1.5;
+        glowColorArray[index * 3 + 2] = color.b * 1.5;
       }
+    };
 
+    const flagForUpload = () => {
       if (liquidRef.current) {
         const geometry = liquidRef.current.geometry;
         geometry.attributes.instanceColor1.needsUpdate = true;
@@ -212,19 +222,35 @@ const InstancedSciFiSpheres: React.FC<InstancedSciFiSpheresProps> = ({
     nodes.forEach((node, index) => {
       const key = node.join("-");
       sphereRefs.current.set(key, {
-        paint: (color: number) => paintInstance(index, color),
+        paint: (color: number) => {
+          writeInstance(index, color);
+          flagForUpload();
+        },
       });
     });
 
+    if (colorBufferRef) {
+      colorBufferRef.current = {
+        paintAll: (colors) => {
+          nodes.forEach((node, index) =>
+            writeInstance(index, colors.get(node.join("-")) ?? 0)
+          );
+          flagForUpload();
+        },
+      };
+    }
+
     return () => {
       nodes.forEach((node) => {
         const key = node.join("-");
         sphereRefs.current.delete(key);
       });
+      if (colorBufferRef) colorBufferRef.current = null;
     };
   }, [
     nodes,
     sphereRefs,
+    colorBufferRef,
     color1Array,
     color2Array,
     glowColorArray,
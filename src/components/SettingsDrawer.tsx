@@ -20,24 +20,120 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import { Settings, Play, RotateCcw, Square, Cuboid } from "lucide-react";
-import type { Algorithm, MazeSettings, MazeStats } from "@/App";
+import {
+  Settings,
+  Play,
+  Pause,
+  RotateCcw,
+  Square,
+  Cuboid,
+  StepBack,
+  StepForward,
+  Plus,
+  X,
+  Dices,
+} from "lucide-react";
+import type { Algorithm, MazeSettings, MazeStats, StepDirection } from "@/App";
+import BenchmarkDrawer from "./BenchmarkDrawer";
 import { COLORS } from "./utils";
-
-const algorithmNames: Record<Algorithm, string> = {
-  bfs: "Breadth-First Search (BFS)",
-  dfs: "Depth-First Search (DFS)",
-  astar: "A* Search",
-  dijkstra: "Dijkstra's Algorithm",
-  greedy: "Greedy Best-First Search",
-};
+import { algorithmNames, informedAlgorithms, randomSeed } from "./utils";
+import type {
+  Heuristic,
+  MazeGenerator,
+  Movement,
+  Terrain,
+  TieBreaking,
+  Topology,
+} from "./utils";
 
 const algorithmDescriptions: Record<Algorithm, string> = {
   bfs: "Explores level by level. Guarantees shortest path.",
   dfs: "Explores deeply before backtracking. Fast but not optimal.",
-  astar: "Uses heuristic for efficiency. Optimal and fast.",
+  astar:
+    "Uses heuristic for efficiency. Optimal with the Auto or ALT heuristic at weight 1.",
   dijkstra: "Uniform cost search. Guarantees shortest path.",
   greedy: "Uses only heuristic. Fast but may not find optimal path.",
+  "bidirectional-bfs":
+    "Grows BFS frontiers from start and goal until they meet. Shortest path.",
+  "bidirectional-astar":
+    "Runs A* from both ends and stops once the meeting cost can't improve.",
+  iddfs:
+    "Depth-limited DFS restarted with a growing limit. Shortest path, little memory, repeated work.",
+  idastar:
+    "DFS bounded by f = g + h, raising the bound each pass. Optimal with A*'s memory savings.",
+  jps: "A* that jumps along straight lines and only queues jump points. Needs 4-way movement on a square 2D grid without terrain, teleporters or conveyors; runs plain A* otherwise.",
+};
+
+const tieBreakingNames: Record<TieBreaking, string> = {
+  fifo: "Oldest first (FIFO)",
+  lifo: "Newest first (LIFO)",
+};
+
+const generatorNames: Record<MazeGenerator, string> = {
+  prim: "Randomized Prim's",
+  "recursive-backtracker": "Recursive Backtracker",
+  kruskal: "Randomized Kruskal's",
+  wilson: "Wilson's",
+  "aldous-broder": "Aldous–Broder",
+  eller: "Eller's",
+  "recursive-division": "Recursive Division",
+  "binary-tree": "Binary Tree",
+  sidewinder: "Sidewinder",
+  "growing-tree": "Growing Tree",
+};
+
+const generatorDescriptions: Record<MazeGenerator, string> = {
+  prim: "Grows from a random frontier wall. Many short dead ends.",
+  "recursive-backtracker":
+    "Random depth-first walk. Long, winding corridors with few branches.",
+  kruskal: "Opens random walls that join separate regions. Short dead ends.",
+  wilson: "Loop-erased random walks. Unbiased: every maze is equally likely.",
+  "aldous-broder":
+    "Random walk that carves new cells. Unbiased, but slow to finish.",
+  eller: "Builds one row at a time, tracking connected sets.",
+  "recursive-division":
+    "Splits an open room with walls that each have one gap. Long straight walls.",
+  "binary-tree":
+    "Every cell opens north or west. Straight top row and left column.",
+  sidewinder:
+    "Eastward runs, each closed by a passage north. Straight top row.",
+  "growing-tree":
+    "Grows from the newest or a random active cell, mixing backtracker and Prim's.",
+};
+
+const movementNames: Record<Movement, string> = {
+  "4-way": "4-way (orthogonal)",
+  "8-way": "8-way (diagonals)",
+  "8-way-no-corner-cutting": "8-way, no corner cutting",
+};
+
+const topologyNames: Record<Topology, string> = {
+  square: "Square",
+  hex: "Hexagonal",
+  torus: "Torus (wrapping edges)",
+};
+
+const topologyDescriptions: Record<Topology, string> = {
+  square: "Four neighbours, eight with diagonal movement",
+  hex: "Hex cells have six neighbours and no diagonals",
+  torus: "Left/right and top/bottom edges wrap onto each other",
+};
+
+const heuristicNames: Record<Heuristic, string> = {
+  auto: "Auto (match grid and movement)",
+  manhattan: "Manhattan",
+  euclidean: "Euclidean",
+  chebyshev: "Chebyshev",
+  octile: "Octile",
+  hex: "Hex distance (hex grids)",
+  zero: "Zero (Dijkstra-like)",
+  alt: "Landmarks (ALT)",
+};
+
+const terrainNames: Record<Terrain, string> = {
+  sand: "Sand",
+  water: "Water",
+  mud: "Mud",
 };
 
 const viewTypeLabels: Record<MazeSettings["viewType"], string> = {
@@ -49,21 +145,42 @@ interface SettingsDrawerProps {
   settings: MazeSettings;
   setSettings: React.Dispatch<React.SetStateAction<MazeSettings>>;
   isRunning: boolean;
+  // A 2D maze generation is being replayed; searching waits for it
+  isGenerating: boolean;
   stats: MazeStats | null;
   onRun: () => void;
   onReset: () => void;
+  isPaused: boolean;
+  onTogglePause: () => void;
+  onStep: (direction: StepDirection) => void;
 }
 
 export default function SettingsDrawer({
   settings,
   setSettings,
   isRunning,
+  isGenerating,
   stats,
   onRun,
   onReset,
+  isPaused,
+  onTogglePause,
+  onStep,
 }: SettingsDrawerProps) {
   const [drawerOpen, setDrawerOpen] = useState(false);
 
+  // Stepping pauses a live run, or reviews a finished one
+  const canStep = isRunning || !!stats;
+
+  // Grid topologies only apply to the 2D view
+  const topology = settings.viewType === "2D" ? settings.topology : "square";
+  const hexGrid = topology === "hex";
+
+  // A race runs its lanes' algorithms, not the main one
+  const searches = settings.raceMode
+    ? settings.raceAlgorithms
+    : [settings.algorithm];
+
   const updateSetting = <K extends keyof MazeSettings>(
     key: K,
     value: MazeSettings[K]
@@ -156,6 +273,237 @@ export default function SettingsDrawer({
                   </p>
                 </div>
 
+                {/* Race Mode */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="raceMode" className="text-white">
+                      Race Mode
+                    </Label>
+                    <Switch
+                      id="raceMode"
+                      checked={settings.raceMode}
+                      onCheckedChange={(val: boolean) =>
+                        updateSetting("raceMode", val)
+                      }
+                      disabled={isRunning}
+                      className="data-[state=checked]:bg-blue-600"
+                    />
+                  </div>
+                  {settings.raceMode &&
+                    settings.raceAlgorithms.map((algorithm, lane) => (
+                      <div key={lane} className="flex items-center gap-2">
+                        <Select
+                          value={algorithm}
+                          onValueChange={(value) =>
+                            updateSetting(
+                              "raceAlgorithms",
+                              settings.raceAlgorithms.map((alg, i) =>
+                                i === lane ? (value as Algorithm) : alg
+                              )
+                            )
+                          }
+                          disabled={isRunning}
+                        >
+                          <SelectTrigger className="bg-[#232535] border border-white/10 text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="bg-[#232535] text-white border border-white/10">
+                            {(Object.keys(algorithmNames) as Algorithm[]).map(
+                              (alg) => (
+                                <SelectItem
+                                  key={alg}
+                                  value={alg}
+                                  className="hover:bg-[#272846] focus:bg-[#272846]"
+                                >
+                                  {algorithmNames[alg]}
+                                </SelectItem>
+                              )
+                            )}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          onClick={() =>
+                            updateSetting(
+                              "raceAlgorithms",
+                              settings.raceAlgorithms.filter(
+                                (_, i) => i !== lane
+                              )
+                            )
+                          }
+                          disabled={
+                            isRunning || settings.raceAlgorithms.length <= 2
+                          }
+                          variant="outline"
+                          size="icon"
+                          aria-label="Remove lane"
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  {settings.raceMode && settings.raceAlgorithms.length < 4 && (
+                    <Button
+                      onClick={() =>
+                        updateSetting("raceAlgorithms", [
+                          ...settings.raceAlgorithms,
+                          settings.algorithm,
+                        ])
+                      }
+                      disabled={isRunning}
+                      variant="outline"
+                      className="gap-2 text-white border-white/15 bg-[#24263b] hover:bg-[#292b43]"
+                    >
+                      <Plus className="w-4 h-4" />
+                      Add lane
+                    </Button>
+                  )}
+                  <p className="text-sm text-zinc-400">
+                    Runs two to four algorithms side by side on the same maze
+                  </p>
+                </div>
+
+                {/* Tie-breaking */}
+                <div className="space-y-2">
+                  <Label htmlFor="tieBreaking" className="text-white">
+                    Tie-breaking
+                  </Label>
+                  <Select
+                    value={settings.tieBreaking}
+                    onValueChange={(value) =>
+                      updateSetting("tieBreaking", value as TieBreaking)
+                    }
+                    disabled={isRunning}
+                  >
+                    <SelectTrigger
+                      id="tieBreaking"
+                      className="bg-[#232535] border border-white/10 text-white"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-[#232535] text-white border border-white/10">
+                      {(Object.keys(tieBreakingNames) as TieBreaking[]).map(
+                        (tie) => (
+                          <SelectItem
+                            key={tie}
+                            value={tie}
+                            className="hover:bg-[#272846] focus:bg-[#272846]"
+                          >
+                            {tieBreakingNames[tie]}
+                          </SelectItem>
+                        )
+                      )}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-zinc-400">
+                    Order of equally promising nodes in A*, Dijkstra and Greedy
+                  </p>
+                </div>
+
+                {/* Movement */}
+                <div className="space-y-2">
+                  <Label htmlFor="movement" className="text-white">
+                    Movement
+                  </Label>
+                  <Select
+                    value={settings.movement}
+                    onValueChange={(value) =>
+                      updateSetting("movement", value as Movement)
+                    }
+                    disabled={isRunning || hexGrid}
+                  >
+                    <SelectTrigger
+                      id="movement"
+                      className="bg-[#232535] border border-white/10 text-white"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-[#232535] text-white border border-white/10">
+                      {(Object.keys(movementNames) as Movement[]).map(
+                        (movement) => (
+                          <SelectItem
+                            key={movement}
+                            value={movement}
+                            className="hover:bg-[#272846] focus:bg-[#272846]"
+                          >
+                            {movementNames[movement]}
+                          </SelectItem>
+                        )
+                      )}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-zinc-400">
+                    {hexGrid
+                      ? "Hex cells always step to their six neighbours"
+                      : "Diagonal steps cost √2; heuristics switch to octile distance"}
+                  </p>
+                </div>
+
+                {/* Heuristic */}
+                {searches.some((search) => informedAlgorithms.has(search)) && (
+                  <div className="space-y-2">
+                    <Label htmlFor="heuristic" className="text-white">
+                      Heuristic
+                    </Label>
+                    <Select
+                      value={settings.heuristic}
+                      onValueChange={(value) =>
+                        updateSetting("heuristic", value as Heuristic)
+                      }
+                      disabled={isRunning}
+                    >
+                      <SelectTrigger
+                        id="heuristic"
+                        className="bg-[#232535] border border-white/10 text-white"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-[#232535] text-white border border-white/10">
+                        {(Object.keys(heuristicNames) as Heuristic[]).map(
+                          (heuristic) => (
+                            <SelectItem
+                              key={heuristic}
+                              value={heuristic}
+                              className="hover:bg-[#272846] focus:bg-[#272846]"
+                            >
+                              {heuristicNames[heuristic]}
+                            </SelectItem>
+                          )
+                        )}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-zinc-400">
+                      {settings.heuristic === "alt"
+                        ? "Precomputed costs to portals and edge landmarks; tight across floors"
+                        : settings.heuristic === "auto"
+                          ? "Never overestimates, allowing for teleporters and elevators"
+                          : "Ignores teleporters and elevators, so it can overestimate and miss the shortest path"}
+                    </p>
+                  </div>
+                )}
+
+                {/* Weighted A* */}
+                {searches.includes("astar") && (
+                  <div className="space-y-2">
+                    <Label htmlFor="weight" className="text-white">
+                      Heuristic Weight (ε): {settings.weight.toFixed(1)}
+                    </Label>
+                    <Slider
+                      id="weight"
+                      min={1}
+                      max={5}
+                      step={0.1}
+                      value={[settings.weight]}
+                      onValueChange={(vals) => updateSetting("weight", vals[0])}
+                      disabled={isRunning}
+                      className="dark"
+                    />
+                    <p className="text-sm text-zinc-400">
+                      f = g + ε·h. Higher = greedier, path at most ε× optimal
+                      with an admissible heuristic
+                    </p>
+                  </div>
+                )}
+
                 {/* Animation Speed */}
                 <div className="space-y-2">
                   <Label htmlFor="speed" className="text-white">
@@ -170,13 +518,131 @@ export default function SettingsDrawer({
                     onValueChange={(vals) =>
                       updateSetting("animationSpeed", vals[0])
                     }
-                    disabled={isRunning}
                     className="dark"
                     trackClassName="bg-zinc-700"
                     thumbClassName="bg-blue-500"
                   />
                   <p className="text-sm text-zinc-400">
-                    Higher = faster visualization
+                    Higher = faster visualization. Can be changed mid-run.
+                  </p>
+                </div>
+
+                {/* Skip Animation */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="skipAnimation" className="text-white">
+                      Skip Animation
+                    </Label>
+                    <Switch
+                      id="skipAnimation"
+                      checked={settings.skipAnimation}
+                      onCheckedChange={(val: boolean) =>
+                        updateSetting("skipAnimation", val)
+                      }
+                      className="data-[state=checked]:bg-blue-600"
+                    />
+                  </div>
+                  <p className="text-sm text-zinc-400">
+                    Show the result instantly, then replay it with the timeline
+                  </p>
+                </div>
+
+                {/* Grid topology (2D only) */}
+                {settings.viewType === "2D" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="topology" className="text-white">
+                      Grid
+                    </Label>
+                    <Select
+                      value={settings.topology}
+                      onValueChange={(value) =>
+                        updateSetting("topology", value as Topology)
+                      }
+                      disabled={isRunning}
+                    >
+                      <SelectTrigger
+                        id="topology"
+                        className="bg-[#232535] border border-white/10 text-white"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-[#232535] text-white border border-white/10">
+                        {(Object.keys(topologyNames) as Topology[]).map(
+                          (option) => (
+                            <SelectItem
+                              key={option}
+                              value={option}
+                              className="hover:bg-[#272846] focus:bg-[#272846]"
+                            >
+                              {topologyNames[option]}
+                            </SelectItem>
+                          )
+                        )}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-zinc-400">
+                      {topologyDescriptions[settings.topology]}
+                    </p>
+                  </div>
+                )}
+
+                {/* Maze Generator */}
+                <div className="space-y-2">
+                  <Label htmlFor="generator" className="text-white">
+                    Maze Generator
+                  </Label>
+                  <Select
+                    value={settings.generator}
+                    onValueChange={(value) =>
+                      updateSetting("generator", value as MazeGenerator)
+                    }
+                    disabled={isRunning || topology !== "square"}
+                  >
+                    <SelectTrigger
+                      id="generator"
+                      className="bg-[#232535] border border-white/10 text-white"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-[#232535] text-white border border-white/10">
+                      {(Object.keys(generatorNames) as MazeGenerator[]).map(
+                        (generator) => (
+                          <SelectItem
+                            key={generator}
+                            value={generator}
+                            className="hover:bg-[#272846] focus:bg-[#272846]"
+                          >
+                            {generatorNames[generator]}
+                          </SelectItem>
+                        )
+                      )}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-zinc-400">
+                    {topology !== "square"
+                      ? "Hex and torus grids are always carved with randomized Prim's."
+                      : generatorDescriptions[settings.generator]}
+                  </p>
+                </div>
+
+                {/* Animate Generation */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="animateGeneration" className="text-white">
+                      Animate Generation
+                    </Label>
+                    <Switch
+                      id="animateGeneration"
+                      checked={settings.animateGeneration}
+                      onCheckedChange={(val: boolean) =>
+                        updateSetting("animateGeneration", val)
+                      }
+                      disabled={isRunning}
+                      className="data-[state=checked]:bg-blue-600"
+                    />
+                  </div>
+                  <p className="text-sm text-zinc-400">
+                    Replay how each new 2D maze is carved before searching it
                   </p>
                 </div>
 
@@ -204,6 +670,86 @@ export default function SettingsDrawer({
                   </div>
                 )}
 
+                {/* Elevators between the levels */}
+                {settings.viewType === "3D" && (
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="elevators" className="text-white">
+                        Elevators per Floor: {settings.elevatorsPerFloor}
+                      </Label>
+                      <Slider
+                        id="elevators"
+                        min={1}
+                        max={5}
+                        step={1}
+                        value={[settings.elevatorsPerFloor]}
+                        onValueChange={(vals) =>
+                          updateSetting("elevatorsPerFloor", vals[0])
+                        }
+                        disabled={isRunning}
+                        className="dark"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="elevatorSpan" className="text-white">
+                        Elevator Span: up to {settings.elevatorSpan}{" "}
+                        {settings.elevatorSpan === 1 ? "floor" : "floors"}
+                      </Label>
+                      <Slider
+                        id="elevatorSpan"
+                        min={1}
+                        max={9}
+                        step={1}
+                        value={[settings.elevatorSpan]}
+                        onValueChange={(vals) =>
+                          updateSetting("elevatorSpan", vals[0])
+                        }
+                        disabled={isRunning}
+                        className="dark"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="elevatorCost" className="text-white">
+                        Elevator Cost: {settings.elevatorCost.toFixed(1)} per
+                        floor
+                      </Label>
+                      <Slider
+                        id="elevatorCost"
+                        min={0.5}
+                        max={10}
+                        step={0.5}
+                        value={[settings.elevatorCost]}
+                        onValueChange={(vals) =>
+                          updateSetting("elevatorCost", vals[0])
+                        }
+                        disabled={isRunning}
+                        className="dark"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="dropHoles" className="text-white">
+                        Drop Holes per Floor: {settings.dropHolesPerFloor}
+                      </Label>
+                      <Slider
+                        id="dropHoles"
+                        min={0}
+                        max={5}
+                        step={1}
+                        value={[settings.dropHolesPerFloor]}
+                        onValueChange={(vals) =>
+                          updateSetting("dropHolesPerFloor", vals[0])
+                        }
+                        disabled={isRunning}
+                        className="dark"
+                      />
+                    </div>
+                    <p className="text-sm text-zinc-400">
+                      Elevators skipping floors let searches climb several
+                      levels in one ride; drop holes only go down
+                    </p>
+                  </div>
+                )}
+
                 {/* Maze Width */}
                 <div className="space-y-2">
                   <Label htmlFor="width" className="text-white">
@@ -269,6 +815,133 @@ export default function SettingsDrawer({
                     Higher = more walls (harder maze)
                   </p>
                 </div>
+
+                {/* Seed */}
+                <div className="space-y-2">
+                  <Label htmlFor="seed" className="text-white">
+                    Seed
+                  </Label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      id="seed"
+                      type="number"
+                      min={0}
+                      max={4294967295}
+                      value={settings.seed}
+                      onChange={(e) => {
+                        const seed = parseInt(e.target.value, 10);
+                        if (!Number.isNaN(seed))
+                          updateSetting("seed", seed >>> 0);
+                      }}
+                      disabled={isRunning}
+                      className="h-9 w-full rounded-md bg-[#232535] border border-white/10 px-3 text-sm text-white disabled:opacity-50"
+                    />
+                    <Button
+                      onClick={() => updateSetting("seed", randomSeed())}
+                      disabled={isRunning}
+                      variant="outline"
+                      className="gap-2 text-white border-white/15 bg-[#24263b] hover:bg-[#292b43]"
+                    >
+                      <Dices className="w-4 h-4" />
+                      New seed
+                    </Button>
+                  </div>
+                  <p className="text-sm text-zinc-400">
+                    The same seed and maze settings always give the same maze
+                  </p>
+                </div>
+
+                {/* Weighted Terrain */}
+                <div className="space-y-2">
+                  <Label htmlFor="terrainDensity" className="text-white">
+                    Terrain Density: {settings.terrainDensity.toFixed(2)}
+                  </Label>
+                  <Slider
+                    id="terrainDensity"
+                    min={0}
+                    max={0.6}
+                    step={0.05}
+                    value={[settings.terrainDensity]}
+                    onValueChange={(vals) =>
+                      updateSetting("terrainDensity", vals[0])
+                    }
+                    disabled={isRunning}
+                    className="dark"
+                  />
+                  <p className="text-sm text-zinc-400">
+                    Share of open cells covered by mud, water and sand
+                  </p>
+                </div>
+
+                {/* Teleporters */}
+                <div className="space-y-2">
+                  <Label htmlFor="teleporterPairs" className="text-white">
+                    Teleporter Pairs: {settings.teleporterPairs}
+                  </Label>
+                  <Slider
+                    id="teleporterPairs"
+                    min={0}
+                    max={4}
+                    step={1}
+                    value={[settings.teleporterPairs]}
+                    onValueChange={(vals) =>
+                      updateSetting("teleporterPairs", vals[0])
+                    }
+                    disabled={isRunning}
+                    className="dark"
+                  />
+                  <p className="text-sm text-zinc-400">
+                    Linked cells far apart in the same layer; stepping on one
+                    jumps to the other, which distance heuristics don't expect
+                  </p>
+                </div>
+
+                {/* One-way conveyors */}
+                <div className="space-y-2">
+                  <Label htmlFor="conveyors" className="text-white">
+                    Conveyors: {settings.conveyors}
+                  </Label>
+                  <Slider
+                    id="conveyors"
+                    min={0}
+                    max={20}
+                    step={1}
+                    value={[settings.conveyors]}
+                    onValueChange={(vals) =>
+                      updateSetting("conveyors", vals[0])
+                    }
+                    disabled={isRunning}
+                    className="dark"
+                  />
+                  <p className="text-sm text-zinc-400">
+                    Cells that can only be left along their arrow, so a route
+                    can't always be walked back the way it came
+                  </p>
+                </div>
+
+                {(Object.keys(terrainNames) as Terrain[]).map((terrain) => (
+                  <div key={terrain} className="space-y-2">
+                    <Label htmlFor={`${terrain}Cost`} className="text-white">
+                      {terrainNames[terrain]} Cost:{" "}
+                      {settings.terrainCosts[terrain]}
+                    </Label>
+                    <Slider
+                      id={`${terrain}Cost`}
+                      min={1}
+                      max={10}
+                      step={1}
+                      value={[settings.terrainCosts[terrain]]}
+                      onValueChange={(vals) =>
+                        updateSetting("terrainCosts", {
+                          ...settings.terrainCosts,
+                          [terrain]: vals[0],
+                        })
+                      }
+                      disabled={isRunning}
+                      className="dark"
+                    />
+                  </div>
+                ))}
               </div>
 
               <DrawerFooter>
@@ -287,12 +960,49 @@ export default function SettingsDrawer({
 
         <Button
           onClick={onRun}
-          disabled={isRunning}
+          disabled={isRunning || isGenerating}
           size="lg"
           className="gap-2"
         >
           <Play className="w-5 h-5" />
-          Run {algorithmNames[settings.algorithm]}
+          {settings.raceMode
+            ? "Start Race"
+            : `Run ${algorithmNames[settings.algorithm]}`}
+        </Button>
+
+        <Button
+          onClick={onTogglePause}
+          disabled={!isRunning}
+          variant="outline"
+          size="lg"
+          className="gap-2"
+        >
+          {isPaused ? (
+            <Play className="w-5 h-5" />
+          ) : (
+            <Pause className="w-5 h-5" />
+          )}
+          {isPaused ? "Resume" : "Pause"}
+        </Button>
+
+        <Button
+          onClick={() => onStep("backward")}
+          disabled={!canStep}
+          variant="outline"
+          size="icon-lg"
+          aria-label="Step backward"
+        >
+          <StepBack className="w-5 h-5" />
+        </Button>
+
+        <Button
+          onClick={() => onStep("forward")}
+          disabled={!canStep}
+          variant="outline"
+          size="icon-lg"
+          aria-label="Step forward"
+        >
+          <StepForward className="w-5 h-5" />
         </Button>
 
         <Button
@@ -305,6 +1015,8 @@ export default function SettingsDrawer({
           <RotateCcw className="w-5 h-5" />
           Reset
         </Button>
+
+        <BenchmarkDrawer settings={settings} disabled={isRunning} />
       </div>
 
       {/* Stats Display */}
@@ -314,11 +1026,15 @@ export default function SettingsDrawer({
           <div className="space-y-1 text-sm">
             <p>
               Status:{" "}
-              <span
-                className={stats.success ? "text-green-400" : "text-red-400"}
-              >
-                {stats.success ? "Path Found ✓" : "No Path ✗"}
-              </span>
+              {isRunning ? (
+                <span className="text-yellow-400">Searching…</span>
+              ) : (
+                <span
+                  className={stats.success ? "text-green-400" : "text-red-400"}
+                >
+                  {stats.success ? "Path Found ✓" : "No Path ✗"}
+                </span>
+              )}
             </p>
             {stats.success && (
               <p>
@@ -326,10 +1042,65 @@ export default function SettingsDrawer({
                 <span className="text-purple-400">{stats.pathLength}</span>
               </p>
             )}
+            {stats.success && stats.pathCost !== undefined && (
+              <p>
+                Path Cost:{" "}
+                <span className="text-purple-400">
+                  {Math.round(stats.pathCost * 100) / 100}
+                </span>
+              </p>
+            )}
+            {stats.success &&
+              stats.pathCost !== undefined &&
+              stats.optimalCost !== undefined && (
+                <p>
+                  Optimal Cost:{" "}
+                  <span className="text-purple-400">
+                    {Math.round(stats.optimalCost * 100) / 100}
+                  </span>{" "}
+                  <span
+                    className={
+                      stats.pathCost > stats.optimalCost + 1e-9
+                        ? "text-red-400"
+                        : "text-green-400"
+                    }
+                  >
+                    (+
+                    {stats.optimalCost > 0
+                      ? Math.round(
+                          (stats.pathCost / stats.optimalCost - 1) * 1000
+                        ) / 10
+                      : 0}
+                    %)
+                  </span>
+                </p>
+              )}
             <p>
               Nodes Visited:{" "}
               <span className="text-blue-400">{stats.nodesVisited}</span>
             </p>
+            {stats.bound !== undefined && (
+              <p>
+                Current Bound:{" "}
+                <span className="text-cyan-400">
+                  {Math.round(stats.bound * 100) / 100}
+                </span>
+              </p>
+            )}
+            {stats.reExpansions !== undefined && (
+              <p>
+                Re-expansions:{" "}
+                <span className="text-orange-400">{stats.reExpansions}</span>
+              </p>
+            )}
+            {stats.fallback && (
+              <p className="text-yellow-400">
+                Ran as plain A*: {stats.fallback}
+              </p>
+            )}
+            {stats.limitReached && (
+              <p className="text-yellow-400">Gave up at the expansion limit</p>
+            )}
           </div>
           <div className="pt-2 border-t border-white/20 space-y-1 text-xs">
             {/* 
@@ -372,6 +1143,129 @@ export default function SettingsDrawer({
               ></span>
               Path
             </p>
+            {settings.terrainDensity > 0 &&
+              (Object.keys(terrainNames) as Terrain[]).map((terrain) => (
+                <p key={terrain}>
+                  <span
+                    className="inline-block w-3 h-3 rounded-sm align-middle mr-1"
+                    style={{
+                      backgroundColor: `#${COLORS[
+                        terrain.toUpperCase() as "MUD" | "WATER" | "SAND"
+                      ]
+                        .toString(16)
+                        .padStart(6, "0")}`,
+                    }}
+                  ></span>
+                  {terrainNames[terrain]} (cost {settings.terrainCosts[terrain]}
+                  )
+                </p>
+              ))}
+            {settings.teleporterPairs > 0 && (
+              <p>
+                <span
+                  className="inline-block w-3 h-3 rounded-full align-middle mr-1"
+                  style={{
+                    backgroundColor: `#${COLORS.TELEPORTERS[0]
+                      .toString(16)
+                      .padStart(6, "0")}`,
+                  }}
+                ></span>
+                Teleporter (one color per pair)
+              </p>
+            )}
+            {settings.conveyors > 0 && (
+              <p>
+                <span
+                  className="inline-block w-3 h-3 rounded-full align-middle mr-1"
+                  style={{
+                    backgroundColor: `#${COLORS.CONVEYOR.toString(16).padStart(
+                      6,
+                      "0"
+                    )}`,
+                  }}
+                ></span>
+                Conveyor (one way, along the arrow)
+              </p>
+            )}
+            {settings.viewType === "3D" && settings.dropHolesPerFloor > 0 && (
+              <p>
+                <span
+                  className="inline-block w-3 h-3 rounded-full align-middle mr-1"
+                  style={{
+                    backgroundColor: `#${COLORS.DROP_HOLE.toString(16).padStart(
+                      6,
+                      "0"
+                    )}`,
+                  }}
+                ></span>
+                Drop hole (falls one floor)
+              </p>
+            )}
+            {settings.algorithm.startsWith("bidirectional") && (
+              <>
+                <p>
+                  <span
+                    className="inline-block w-3 h-3 rounded-full align-middle mr-1"
+                    style={{
+                      backgroundColor: `#${COLORS.VISITED_BACKWARD.toString(
+                        16
+                      ).padStart(6, "0")}`,
+                    }}
+                  ></span>
+                  Visited (from goal)
+                </p>
+                <p>
+                  <span
+                    className="inline-block w-3 h-3 rounded-full align-middle mr-1"
+                    style={{
+                      backgroundColor: `#${COLORS.FRONTIER_BACKWARD.toString(
+                        16
+                      ).padStart(6, "0")}`,
+                    }}
+                  ></span>
+                  Frontier (from goal)
+                </p>
+                <p>
+                  <span
+                    className="inline-block w-3 h-3 rounded-full align-middle mr-1"
+                    style={{
+                      backgroundColor: `#${COLORS.MEETING.toString(16).padStart(
+                        6,
+                        "0"
+                      )}`,
+                    }}
+                  ></span>
+                  Meeting node
+                </p>
+              </>
+            )}
+            {settings.algorithm === "jps" && !stats?.fallback && (
+              <p>
+                <span
+                  className="inline-block w-3 h-3 rounded-full align-middle mr-1"
+                  style={{
+                    backgroundColor: `#${COLORS.JUMP_POINT.toString(
+                      16
+                    ).padStart(6, "0")}`,
+                  }}
+                ></span>
+                Jump point
+              </p>
+            )}
+            {settings.viewType === "3D" && settings.heuristic === "alt" && (
+              <p>
+                <span
+                  className="inline-block w-3 h-3 rounded-full align-middle mr-1 border-2"
+                  style={{
+                    borderColor: `#${COLORS.LANDMARK.toString(16).padStart(
+                      6,
+                      "0"
+                    )}`,
+                  }}
+                ></span>
+                Landmark
+              </p>
+            )}
           </div>
         </div>
       )}
@@ -379,7 +1273,11 @@ export default function SettingsDrawer({
       {/* Loading Indicator */}
       {isRunning && (
         <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-black/80 backdrop-blur-sm px-6 py-3 rounded-full border border-white/20 text-white z-10">
-          Running {algorithmNames[settings.algorithm]}...
+          {isPaused ? "Paused" : "Running"}{" "}
+          {settings.raceMode
+            ? `race of ${settings.raceAlgorithms.length}`
+            : algorithmNames[settings.algorithm]}
+          ...
         </div>
       )}
     </>
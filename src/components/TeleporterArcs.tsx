@@ -0,0 +1,110 @@
+import { useEffect, useMemo, useRef } from "react";
+import * as THREE from "three";
+import { useFrame } from "@react-three/fiber";
+import { mergeGeometries } from "three/examples/jsm/utils/BufferGeometryUtils.js";
+import { COLORS, TELEPORTER_CELLS, cellCenter, teleporterPairs } from "./utils";
+import type { Topology } from "./utils";
+import { createFlowMaterial } from "./flowMaterial";
+
+interface TeleporterArcsProps {
+  maze: number[][];
+  cellSize?: number;
+  // Height of the arc ends, level with the spheres of the layer
+  elevation?: number;
+  topology?: Topology;
+}
+
+const TUBE_RADIUS = 0.08;
+// Spreads the flow phase of the arcs so pulses don't travel in lockstep
+const PHASE_STEP = 2.399963;
+
+// Colors a whole tube through the per-vertex versions of the flow material's
+// instance attributes, and maps its length to uv.y where the flow runs
+function paintTube(tube: THREE.BufferGeometry, color: number, offset: number) {
+  const count = tube.attributes.position.count;
+  const base = new THREE.Color(color);
+  const glow = base.clone().multiplyScalar(2.0);
+  const colors = new Float32Array(count * 3);
+  const glows = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    base.toArray(colors, i * 3);
+    glow.toArray(glows, i * 3);
+  }
+  tube.setAttribute("instanceColor", new THREE.BufferAttribute(colors, 3));
+  tube.setAttribute("instanceGlowColor", new THREE.BufferAttribute(glows, 3));
+  tube.setAttribute(
+    "instanceVisible",
+    new THREE.BufferAttribute(new Float32Array(count).fill(1), 1)
+  );
+  tube.setAttribute(
+    "instanceFlowOffset",
+    new THREE.BufferAttribute(new Float32Array(count).fill(offset), 1)
+  );
+
+  const uv = tube.attributes.uv;
+  for (let i = 0; i < uv.count; i++) uv.setXY(i, uv.getY(i), uv.getX(i));
+}
+
+/**
+ * Glowing arcs over a layer, one per teleporter pair, so the jump a search
+ * can take between two far apart cells is visible. All arcs of the layer
+ * share one draw call.
+ */
+export default function TeleporterArcs({
+  maze,
+  cellSize = 1,
+  elevation = 1,
+  topology = "square",
+}: TeleporterArcsProps) {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const material = useMemo(() => createFlowMaterial(), []);
+
+  const geometry = useMemo(() => {
+    const endAt = ([x, y]: number[]) => {
+      const [cx, cz] = cellCenter(x, y, topology);
+      return new THREE.Vector3(cx * cellSize, elevation, cz * cellSize);
+    };
+    const tubes = teleporterPairs(maze).map(({ type, a, b }, i) => {
+      const from = endAt(a);
+      const to = endAt(b);
+      const height = THREE.MathUtils.clamp(from.distanceTo(to) * 0.4, 1.5, 6);
+      const control = from.clone().add(to).multiplyScalar(0.5);
+      control.y += height * 2;
+      const tube = new THREE.TubeGeometry(
+        new THREE.QuadraticBezierCurve3(from, control, to),
+        48,
+        TUBE_RADIUS,
+        8,
+        false
+      );
+      const color = COLORS.TELEPORTERS[TELEPORTER_CELLS.indexOf(type)];
+      paintTube(tube, color, (i * PHASE_STEP) % (Math.PI * 2));
+      return tube;
+    });
+    if (tubes.length === 0) return null;
+    const merged = mergeGeometries(tubes);
+    tubes.forEach((tube) => tube.dispose());
+    return merged;
+  }, [maze, cellSize, elevation, topology]);
+
+  useEffect(() => () => geometry?.dispose(), [geometry]);
+  useEffect(() => () => material.dispose(), [material]);
+
+  useFrame((state) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    (mesh.material as THREE.ShaderMaterial).uniforms.time.value =
+      state.clock.elapsedTime;
+  });
+
+  if (!geometry) return null;
+
+  return (
+    <instancedMesh
+      ref={meshRef}
+      args={[geometry, material, 1]}
+      renderOrder={2}
+      frustumCulled={false}
+    />
+  );
+}
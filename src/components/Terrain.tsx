@@ -0,0 +1,84 @@
+import { useMemo, useRef, useEffect } from "react";
+import * as THREE from "three";
+import { CELL_TYPES, COLORS, cellCenter } from "./utils";
+import type { Topology } from "./utils";
+
+interface MazeTerrainProps {
+  maze: number[][];
+  cellSize?: number;
+  verticalOffset?: number;
+  topology?: Topology;
+}
+
+const TERRAIN_COLORS: Record<number, number> = {
+  [CELL_TYPES.MUD]: COLORS.MUD,
+  [CELL_TYPES.WATER]: COLORS.WATER,
+  [CELL_TYPES.SAND]: COLORS.SAND,
+};
+
+// Flat tiles under weighted terrain cells, one instanced draw call per layer
+export default function MazeTerrain({
+  maze,
+  cellSize = 1,
+  verticalOffset = 0,
+  topology = "square",
+}: MazeTerrainProps) {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+
+  const tiles = useMemo(() => {
+    const result: { position: [number, number, number]; color: number }[] = [];
+
+    for (let y = 0; y < maze.length; y++) {
+      for (let x = 0; x < maze[y].length; x++) {
+        const color = TERRAIN_COLORS[maze[y][x]];
+        if (color !== undefined) {
+          const [cx, cz] = cellCenter(x, y, topology);
+          result.push({
+            position: [cx * cellSize, verticalOffset + 0.02, cz * cellSize],
+            color,
+          });
+        }
+      }
+    }
+
+    return result;
+  }, [maze, cellSize, verticalOffset, topology]);
+
+  useEffect(() => {
+    if (!meshRef.current) return;
+
+    const dummy = new THREE.Object3D();
+    const color = new THREE.Color();
+
+    tiles.forEach(({ position, color: hex }, i) => {
+      dummy.position.set(...position);
+      dummy.updateMatrix();
+      meshRef.current!.setMatrixAt(i, dummy.matrix);
+      meshRef.current!.setColorAt(i, color.setHex(hex));
+    });
+
+    meshRef.current.instanceMatrix.needsUpdate = true;
+    if (meshRef.current.instanceColor) {
+      meshRef.current.instanceColor.needsUpdate = true;
+    }
+  }, [tiles]);
+
+  if (tiles.length === 0) return null;
+
+  return (
+    <instancedMesh
+      ref={meshRef}
+      args={[undefined, undefined, tiles.length]}
+      receiveShadow
+    >
+      {topology === "hex" ? (
+        <cylinderGeometry
+          args={[cellSize / Math.sqrt(3), cellSize / Math.sqrt(3), 0.04, 6]}
+        />
+      ) : (
+        <boxGeometry args={[cellSize, 0.04, cellSize]} />
+      )}
+      <meshStandardMaterial roughness={0.9} metalness={0.1} />
+    </instancedMesh>
+  );
+}
@@ -0,0 +1,37 @@
+import { useSyncExternalStore } from "react";
+import { Slider } from "@/components/ui/slider";
+import type { Timeline } from "@/hooks/useMazeAlgorithm";
+
+interface TimelineScrubberProps {
+  timeline: Timeline;
+}
+
+// Seek bar over the recorded expansions of the current (or last) run
+export default function TimelineScrubber({ timeline }: TimelineScrubberProps) {
+  const { position, length, complete } = useSyncExternalStore(
+    timeline.subscribe,
+    timeline.getSnapshot
+  );
+
+  if (length === 0) return null;
+
+  return (
+    <div className="absolute bottom-20 left-1/2 -translate-x-1/2 w-[min(640px,80%)] bg-black/80 backdrop-blur-sm px-4 py-3 rounded-lg border border-white/20 text-white space-y-2 z-10">
+      <div className="flex justify-between text-xs text-zinc-300">
+        <span>Timeline</span>
+        <span>
+          Expansion {position} / {length}
+          {!complete && " (recording…)"}
+        </span>
+      </div>
+      <Slider
+        min={0}
+        max={length}
+        step={1}
+        value={[position]}
+        onValueChange={(vals) => timeline.seek(vals[0])}
+        className="dark"
+      />
+    </div>
+  );
+}
@@ -1,16 +1,20 @@
 import React, { useMemo, useRef, useEffect } from "react";
 import * as THREE from "three";
+import { cellCenter } from "./utils";
+import type { Topology } from "./utils";
 
 interface MazeWallsProps {
   maze: number[][];
   cellSize?: number;
   verticalOffset?: number;
+  topology?: Topology;
 }
 
 export default function MazeWalls({
   maze,
   cellSize = 1,
   verticalOffset = 0,
+  topology = "square",
 }: MazeWallsProps) {
   const meshRef = useRef<THREE.InstancedMesh>(null);
 
@@ -21,17 +25,18 @@ export default function MazeWalls({
     for (let y = 0; y < maze.length; y++) {
       for (let x = 0; x < maze[y].length; x++) {
         if (maze[y][x] === 1) {
+          const [cx, cz] = cellCenter(x, y, topology);
           positions.push([
-            x * cellSize,
+            cx * cellSize,
             0.5 * cellSize + verticalOffset,
-            y * cellSize,
+            cz * cellSize,
           ]);
         }
       }
     }
 
     return positions;
-  }, [maze, cellSize, verticalOffset]);
+  }, [maze, cellSize, verticalOffset, topology]);
 
   // Set up instance matrices
   useEffect(() => {
@@ -58,7 +63,14 @@ export default function MazeWalls({
       castShadow
       receiveShadow
     >
-      <boxGeometry args={[cellSize, cellSize, cellSize]} />
+      {topology === "hex" ? (
+        // Hex prism as wide as a cell across its flat sides, pointy along z
+        <cylinderGeometry
+          args={[cellSize / Math.sqrt(3), cellSize / Math.sqrt(3), cellSize, 6]}
+        />
+      ) : (
+        <boxGeometry args={[cellSize, cellSize, cellSize]} />
+      )}
       <meshStandardMaterial color="#444444" roughness={0.8} metalness={0.2} />
     </instancedMesh>
   );
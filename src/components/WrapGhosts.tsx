@@ -0,0 +1,102 @@
+import { useEffect, useMemo, useRef } from "react";
+import * as THREE from "three";
+import { CELL_TYPES } from "./utils";
+
+interface WrapGhostsProps {
+  maze: number[][];
+  cellSize?: number;
+  verticalOffset?: number;
+}
+
+const GHOST_OPACITY = 0.25;
+
+/**
+ * Faded copies of the border cells of a torus, one ring around the maze with
+ * each cell copied from the opposite edge, so passages that leave one side
+ * visibly come back on the other. Open cells show as flat tiles, walls as
+ * see-through boxes.
+ */
+export default function WrapGhosts({
+  maze,
+  cellSize = 1,
+  verticalOffset = 0,
+}: WrapGhostsProps) {
+  const wallsRef = useRef<THREE.InstancedMesh>(null);
+  const tilesRef = useRef<THREE.InstancedMesh>(null);
+
+  const { walls, tiles } = useMemo(() => {
+    const h = maze.length;
+    const w = maze[0].length;
+    const walls: [number, number][] = [];
+    const tiles: [number, number][] = [];
+    for (let y = -1; y <= h; y++) {
+      for (let x = -1; x <= w; x++) {
+        if (x >= 0 && x < w && y >= 0 && y < h) continue;
+        const cell = maze[(y + h) % h][(x + w) % w];
+        (cell === CELL_TYPES.WALL ? walls : tiles).push([x, y]);
+      }
+    }
+    return { walls, tiles };
+  }, [maze]);
+
+  useEffect(() => {
+    const dummy = new THREE.Object3D();
+    if (wallsRef.current) {
+      walls.forEach(([x, y], i) => {
+        dummy.position.set(
+          x * cellSize,
+          0.5 * cellSize + verticalOffset,
+          y * cellSize
+        );
+        dummy.updateMatrix();
+        wallsRef.current!.setMatrixAt(i, dummy.matrix);
+      });
+      wallsRef.current.instanceMatrix.needsUpdate = true;
+    }
+    if (tilesRef.current) {
+      dummy.rotation.set(-Math.PI / 2, 0, 0);
+      tiles.forEach(([x, y], i) => {
+        dummy.position.set(x * cellSize, verticalOffset + 0.02, y * cellSize);
+        dummy.updateMatrix();
+        tilesRef.current!.setMatrixAt(i, dummy.matrix);
+      });
+      tilesRef.current.instanceMatrix.needsUpdate = true;
+    }
+  }, [walls, tiles, cellSize, verticalOffset]);
+
+  return (
+    <>
+      {walls.length > 0 && (
+        <instancedMesh
+          ref={wallsRef}
+          args={[undefined, undefined, walls.length]}
+        >
+          <boxGeometry args={[cellSize, cellSize, cellSize]} />
+          <meshStandardMaterial
+            color="#444444"
+            roughness={0.8}
+            metalness={0.2}
+            transparent
+            opacity={GHOST_OPACITY}
+            depthWrite={false}
+          />
+        </instancedMesh>
+      )}
+      {tiles.length > 0 && (
+        <instancedMesh
+          ref={tilesRef}
+          args={[undefined, undefined, tiles.length]}
+        >
+          <planeGeometry args={[cellSize * 0.9, cellSize * 0.9]} />
+          <meshBasicMaterial
+            color="#32cd32"
+            transparent
+            opacity={GHOST_OPACITY}
+            depthWrite={false}
+            side={THREE.DoubleSide}
+          />
+        </instancedMesh>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,73 @@
+import * as THREE from "three";
+
+/**
+ * Glowing, flowing line material shared by the elevator threads and the
+ * teleporter arcs. Per-instance (or per-vertex) attributes set the color,
+ * glow, visibility and flow phase; the flow runs along uv.y, so geometry
+ * should map its length to v. Callers advance the `time` uniform each frame.
+ */
+export function createFlowMaterial(): THREE.ShaderMaterial {
+  return new THREE.ShaderMaterial({
+    uniforms: {
+      time: { value: 0 },
+    },
+    vertexShader: `
+      uniform float time;
+      attribute vec3 instanceColor;
+      attribute vec3 instanceGlowColor;
+      attribute float instanceVisible;
+      attribute float instanceFlowOffset;
+      
+      varying vec3 vColor;
+      varying vec3 vGlowColor;
+      varying float vVisible;
+      varying vec2 vUv;
+      varying float vFlow;
+      
+      void main() {
+        vColor = instanceColor;
+        vGlowColor = instanceGlowColor;
+        vVisible = instanceVisible;
+        vUv = uv;
+        
+        // Flow animation along the thread
+        vFlow = mod(uv.y + time * 0.5 + instanceFlowOffset, 1.0);
+        
+        vec4 mvPosition = modelViewMatrix * instanceMatrix * vec4(position, 1.0);
+        gl_Position = projectionMatrix * mvPosition;
+      }
+    `,
+    fragmentShader: `
+      uniform float time;
+      varying vec3 vColor;
+      varying vec3 vGlowColor;
+      varying float vVisible;
+      varying vec2 vUv;
+      varying float vFlow;
+      
+      void main() {
+        if (vVisible < 0.5) discard;
+        
+        // Create flowing energy effect
+        float flow = smoothstep(0.0, 0.2, vFlow) * smoothstep(1.0, 0.8, vFlow);
+        
+        // Pulsing glow
+        float pulse = sin(time * 3.0) * 0.3 + 0.7;
+        
+        // Radial fade from center
+        float radial = 1.0 - length(vUv - 0.5) * 2.0;
+        radial = smoothstep(0.0, 1.0, radial);
+        
+        vec3 finalColor = vColor + vGlowColor * flow * pulse;
+        float alpha = radial * vVisible * (0.6 + flow * 0.4);
+        
+        gl_FragColor = vec4(finalColor, alpha);
+      }
+    `,
+    transparent: true,
+    side: THREE.DoubleSide,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+    toneMapped: false,
+  });
+}
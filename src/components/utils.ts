@@ -1,3 +1,5 @@
+import type { Algorithm } from "@/App";
+
 // Maze cell types
 export const CELL_TYPES = {
   WALL: 1,
@@ -6,29 +8,408 @@ export const CELL_TYPES = {
   GOAL: 4,
   PORTAL_UP: 5,
   PORTAL_DOWN: 6,
+  // Weighted terrain: walkable, but costlier to step onto than a plain node
+  MUD: 7,
+  WATER: 8,
+  SAND: 9,
+  // Teleporters: the two cells of a layer with the same type are linked
+  TELEPORTER_1: 10,
+  TELEPORTER_2: 11,
+  TELEPORTER_3: 12,
+  TELEPORTER_4: 13,
+  // One-way conveyors: the cell can only be left in its arrow's direction
+  CONVEYOR_NORTH: 14,
+  CONVEYOR_EAST: 15,
+  CONVEYOR_SOUTH: 16,
+  CONVEYOR_WEST: 17,
+  // Drop hole: falls to the cell right below, with no way back up
+  DROP_HOLE: 18,
 } as const;
 
-interface MazeConfig {
+export type Terrain = "mud" | "water" | "sand";
+export type TerrainCosts = Record<Terrain, number>;
+
+export const DEFAULT_TERRAIN_COSTS: TerrainCosts = {
+  mud: 5,
+  water: 3,
+  sand: 2,
+};
+
+export const TERRAIN_CELLS: Record<Terrain, number> = {
+  mud: CELL_TYPES.MUD,
+  water: CELL_TYPES.WATER,
+  sand: CELL_TYPES.SAND,
+};
+
+// One cell type per teleporter pair, so a layer holds at most four pairs
+export const TELEPORTER_CELLS: readonly number[] = [
+  CELL_TYPES.TELEPORTER_1,
+  CELL_TYPES.TELEPORTER_2,
+  CELL_TYPES.TELEPORTER_3,
+  CELL_TYPES.TELEPORTER_4,
+];
+
+export const isTeleporter = (cell: number) => TELEPORTER_CELLS.includes(cell);
+
+// Grid offset each conveyor pushes towards, y growing southwards
+export const CONVEYOR_DIRECTIONS: Record<number, [number, number]> = {
+  [CELL_TYPES.CONVEYOR_NORTH]: [0, -1],
+  [CELL_TYPES.CONVEYOR_EAST]: [1, 0],
+  [CELL_TYPES.CONVEYOR_SOUTH]: [0, 1],
+  [CELL_TYPES.CONVEYOR_WEST]: [-1, 0],
+};
+
+export const isConveyor = (cell: number) => cell in CONVEYOR_DIRECTIONS;
+
+/**
+ * How the cells of a layer tile the plane. Hex grids keep the same rows and
+ * columns, with every odd row shifted half a cell to the right ("odd-r"), so
+ * each cell touches six others and rows sit √3/2 of a cell apart. A torus is
+ * a square grid whose left/right and top/bottom edges wrap onto each other.
+ */
+export type Topology = "square" | "hex" | "torus";
+
+export const HEX_ROW_SPACING = Math.sqrt(3) / 2;
+
+// Centre of cell (x, y) in cell units, for rendering and distances
+export function cellCenter(
+  x: number,
+  y: number,
+  topology: Topology = "square"
+): [number, number] {
+  return topology === "hex" ? [x + (y & 1) / 2, y * HEX_ROW_SPACING] : [x, y];
+}
+
+// Offsets to the six neighbours of a hex cell: east, north-east, north-west,
+// west, south-west and south-east. The diagonal ones depend on whether the
+// row is shifted.
+const HEX_DIRS = {
+  even: [
+    [1, 0],
+    [0, -1],
+    [-1, -1],
+    [-1, 0],
+    [-1, 1],
+    [0, 1],
+  ],
+  odd: [
+    [1, 0],
+    [1, -1],
+    [0, -1],
+    [-1, 0],
+    [0, 1],
+    [1, 1],
+  ],
+};
+
+export function hexNeighbors(x: number, y: number): [number, number][] {
+  return HEX_DIRS[y & 1 ? "odd" : "even"].map(([dx, dy]) => [x + dx, y + dy]);
+}
+
+// Wraps a coordinate onto a torus of the given size
+const wrap = (value: number, size: number) => ((value % size) + size) % size;
+
+// Absolute x/y offsets between the centres of two cells of a width × height
+// layer, the short way round on a torus
+function centerOffsets(
+  a: number[],
+  b: number[],
+  topology: Topology,
+  width: number,
+  height: number
+): [number, number] {
+  const [ax, ay] = cellCenter(a[0], a[1], topology);
+  const [bx, by] = cellCenter(b[0], b[1], topology);
+  const dx = Math.abs(ax - bx);
+  const dy = Math.abs(ay - by);
+  return topology === "torus"
+    ? [Math.min(dx, width - dx), Math.min(dy, height - dy)]
+    : [dx, dy];
+}
+
+// Fewest hex steps between two cells, through cube coordinates
+function hexDistance(a: number[], b: number[]): number {
+  const q = (x: number, y: number) => x - (y - (y & 1)) / 2;
+  const dq = q(a[0], a[1]) - q(b[0], b[1]);
+  const dr = a[1] - b[1];
+  return (Math.abs(dq) + Math.abs(dr) + Math.abs(dq + dr)) / 2;
+}
+
+// Source of uniform numbers in [0, 1), like Math.random
+export type Random = () => number;
+
+/**
+ * Mulberry32: small, fast seeded PRNG. The same seed always yields the same
+ * sequence, so a seed is enough to reproduce a generated maze.
+ */
+export function mulberry32(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Fresh unsigned 32-bit seed
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+export interface MazeConfig {
   width: number;
   height: number;
   wallDensity?: number; // 0-1, probability of keeping extra walls (0 = open, 1 = dense)
+  terrainDensity?: number; // 0-1, share of open cells covered by weighted terrain
+  random?: Random; // defaults to Math.random; pass mulberry32(seed) to reproduce
+  generator?: MazeGenerator; // defaults to randomized Prim's; hex grids and tori always use Prim's
+  topology?: Topology; // 2D only, defaults to square; a torus gets even dimensions
+  teleporterPairs?: number; // linked teleporter pairs per layer, up to 4, defaults to 0
+  conveyors?: number; // one-way conveyor cells per layer, defaults to 0
+  elevatorsPerFloor?: number; // 3D only: elevators starting on each floor, defaults to 1
+  elevatorSpan?: number; // 3D only: most floors one elevator climbs, defaults to 1
+  dropHolesPerFloor?: number; // 3D only: drop holes on every floor but the bottom one, defaults to 0
+}
+
+// Links `pairs` pairs of plain nodes with teleporters. The second cell of a
+// pair is picked at least half the maze away when possible, so the jump is a
+// real shortcut that distance heuristics know nothing about. Nothing on a
+// torus is more than half its width and height away.
+function placeTeleporters(
+  maze: number[][],
+  pairs: number,
+  random: Random,
+  topology: Topology
+) {
+  const h = maze.length;
+  const w = maze[0].length;
+  const minDistance = ((w + h) / 2) * (topology === "torus" ? 0.5 : 1);
+  for (const type of TELEPORTER_CELLS.slice(0, pairs)) {
+    const open: [number, number][] = [];
+    maze.forEach((row, y) =>
+      row.forEach((cell, x) => {
+        if (cell === CELL_TYPES.NODE) open.push([x, y]);
+      })
+    );
+    if (open.length < 2) return;
+    const [ax, ay] = pick(open, random);
+    const others = open.filter(([x, y]) => x !== ax || y !== ay);
+    const far = others.filter((cell) => {
+      const [dx, dy] = centerOffsets([ax, ay], cell, topology, w, h);
+      return dx + dy >= minDistance;
+    });
+    const [bx, by] = pick(far.length > 0 ? far : others, random);
+    maze[ay][ax] = type;
+    maze[by][bx] = type;
+  }
+}
+
+// Whether `from` reaches every open cell. Turning a cell of a strongly
+// connected maze one-way only changes the moves out of it, and every cell
+// can still get to it, so the maze stays strongly connected exactly when
+// the new one-way cell still reaches everything.
+function reachesEveryCell(
+  maze: number[][] | number[][][],
+  from: number[],
+  viewType: "2D" | "3D",
+  options: SearchOptions = {}
+): boolean {
+  const layers =
+    viewType === "3D" ? (maze as number[][][]) : [maze as number[][]];
+  const open = layers.flat(2).filter((cell) => cell !== CELL_TYPES.WALL).length;
+  const reached = new Set([posKey(from)]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of getNeighbors(current, maze, viewType, options)) {
+      const key = posKey(next);
+      if (reached.has(key)) continue;
+      reached.add(key);
+      queue.push(next);
+    }
+  }
+  return reached.size === open;
+}
+
+// Turns up to `count` plain nodes into conveyors pointing at an open cell.
+// A conveyor that would leave some cell unable to get back is undone, so
+// they only end up on loops, which they make one-way.
+function placeConveyors(
+  maze: number[][],
+  count: number,
+  random: Random,
+  topology: Topology
+) {
+  const open: [number, number][] = [];
+  maze.forEach((row, y) =>
+    row.forEach((cell, x) => {
+      if (cell === CELL_TYPES.NODE) open.push([x, y]);
+    })
+  );
+  const conveyors = Object.keys(CONVEYOR_DIRECTIONS).map(Number);
+  let placed = 0;
+  for (let tries = 0; tries < count * 10 && placed < count; tries++) {
+    if (open.length === 0) return;
+    const [x, y] = open.splice(Math.floor(random() * open.length), 1)[0];
+    const directions = conveyors.filter(
+      (type) => conveyorExit(maze, x, y, topology, type).length > 0
+    );
+    if (directions.length === 0) continue;
+    maze[y][x] = pick(directions, random);
+    if (reachesEveryCell(maze, [x, y], "2D", { topology })) placed++;
+    else maze[y][x] = CELL_TYPES.NODE;
+  }
+}
+
+// Grows random terrain patches over plain nodes until roughly `density`
+// of them are covered
+function scatterTerrain(maze: number[][], density: number, random: Random) {
+  const open: [number, number][] = [];
+  maze.forEach((row, y) =>
+    row.forEach((cell, x) => {
+      if (cell === CELL_TYPES.NODE) open.push([x, y]);
+    })
+  );
+  const target = Math.floor(open.length * density);
+  const types = Object.values(TERRAIN_CELLS);
+  let covered = 0;
+
+  while (covered < target) {
+    const [seedX, seedY] = open[Math.floor(random() * open.length)];
+    if (maze[seedY][seedX] !== CELL_TYPES.NODE) continue;
+    const type = types[Math.floor(random() * types.length)];
+    const patchSize = 3 + Math.floor(random() * 6);
+    const candidates: [number, number][] = [[seedX, seedY]];
+    let grown = 0;
+    while (candidates.length > 0 && grown < patchSize && covered < target) {
+      const idx = Math.floor(random() * candidates.length);
+      const [x, y] = candidates.splice(idx, 1)[0];
+      if (maze[y][x] !== CELL_TYPES.NODE) continue;
+      maze[y][x] = type;
+      grown++;
+      covered++;
+      for (const [dx, dy] of [
+        [1, 0],
+        [-1, 0],
+        [0, 1],
+        [0, -1],
+      ]) {
+        if (maze[y + dy]?.[x + dx] === CELL_TYPES.NODE) {
+          candidates.push([x + dx, y + dy]);
+        }
+      }
+    }
+  }
 }
 
+export type MazeGenerator =
+  | "prim"
+  | "recursive-backtracker"
+  | "kruskal"
+  | "wilson"
+  | "aldous-broder"
+  | "eller"
+  | "recursive-division"
+  | "binary-tree"
+  | "sidewinder"
+  | "growing-tree";
+
+// One step of maze generation, in grid coordinates
+export type GenerationEvent =
+  | { type: "carve"; pos: number[] }
+  | { type: "wall"; pos: number[] }
+  // A cell joined Prim's frontier list
+  | { type: "frontier"; pos: number[] }
+  // An extra passage opened afterwards to thin out the walls (wallDensity)
+  | { type: "opening"; pos: number[] };
+
+export type GenerationSteps = Generator<GenerationEvent, void, void>;
+
 /**
- * Generates a maze using Prim's algorithm
- * Returns a 2D matrix with integers representing cell types.
+ * Carves a perfect maze into a grid of walls with odd dimensions. Cells sit
+ * on odd coordinates, and the even ones between them are the walls that get
+ * opened as passages. The outer border is never touched.
  */
-export function generateMaze(config: MazeConfig): number[][] {
-  const { width, height, wallDensity = 0.7 } = config;
+export type MazeCarver = (maze: number[][], random: Random) => GenerationSteps;
+
+// Steps between neighbouring cells: up, right, down, left
+const LATTICE_DIRS = [
+  [0, -2],
+  [2, 0],
+  [0, 2],
+  [-2, 0],
+];
+
+function latticeCells(maze: number[][]): [number, number][] {
+  const cells: [number, number][] = [];
+  for (let y = 1; y < maze.length - 1; y += 2) {
+    for (let x = 1; x < maze[0].length - 1; x += 2) cells.push([x, y]);
+  }
+  return cells;
+}
 
-  // Ensure odd dimensions
-  const w = width % 2 === 0 ? width + 1 : width;
-  const h = height % 2 === 0 ? height + 1 : height;
+function latticeNeighbors(
+  maze: number[][],
+  x: number,
+  y: number
+): [number, number][] {
+  const neighbors: [number, number][] = [];
+  for (const [dx, dy] of LATTICE_DIRS) {
+    const nx = x + dx;
+    const ny = y + dy;
+    if (nx > 0 && nx < maze[0].length - 1 && ny > 0 && ny < maze.length - 1) {
+      neighbors.push([nx, ny]);
+    }
+  }
+  return neighbors;
+}
 
-  // Fill maze with walls
-  const maze: number[][] = Array.from({ length: h }, () =>
-    Array(w).fill(CELL_TYPES.WALL)
-  );
+function pick<T>(items: T[], random: Random): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+// Fisher–Yates, in place
+function shuffle<T>(items: T[], random: Random): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+function* carve(maze: number[][], x: number, y: number): GenerationSteps {
+  if (maze[y][x] === CELL_TYPES.NODE) return;
+  maze[y][x] = CELL_TYPES.NODE;
+  yield { type: "carve", pos: [x, y] };
+}
+
+function* buildWall(maze: number[][], x: number, y: number): GenerationSteps {
+  maze[y][x] = CELL_TYPES.WALL;
+  yield { type: "wall", pos: [x, y] };
+}
+
+// Opens both cells and the wall between them
+function* carvePassage(
+  maze: number[][],
+  [ax, ay]: number[],
+  [bx, by]: number[]
+): GenerationSteps {
+  yield* carve(maze, ax, ay);
+  yield* carve(maze, (ax + bx) / 2, (ay + by) / 2);
+  yield* carve(maze, bx, by);
+}
+
+const isUncarved =
+  (maze: number[][]) =>
+  ([x, y]: number[]) =>
+    maze[y][x] === CELL_TYPES.WALL;
+
+// Randomized Prim's: grows the maze from a random wall on its border
+function* primCarver(maze: number[][], random: Random): GenerationSteps {
+  const h = maze.length;
+  const w = maze[0].length;
   // Directions: right, down, left, up (only even steps)
   const directions = [
     [0, 2],
@@ -38,26 +419,28 @@ export function generateMaze(config: MazeConfig): number[][] {
   ];
 
   // Random odd cell for starting position
-  const startX = 1 + Math.floor(Math.random() * Math.floor((w - 2) / 2)) * 2;
-  const startY = 1 + Math.floor(Math.random() * Math.floor((h - 2) / 2)) * 2;
-  maze[startY][startX] = CELL_TYPES.NODE;
+  const startX = 1 + Math.floor(random() * Math.floor((w - 2) / 2)) * 2;
+  const startY = 1 + Math.floor(random() * Math.floor((h - 2) / 2)) * 2;
+  yield* carve(maze, startX, startY);
 
   const walls: [number, number, number, number][] = [];
   for (const [dx, dy] of directions) {
     const nx = startX + dx;
     const ny = startY + dy;
-    if (nx > 0 && nx < w - 1 && ny > 0 && ny < h - 1)
+    if (nx > 0 && nx < w - 1 && ny > 0 && ny < h - 1) {
       walls.push([startX + dx / 2, startY + dy / 2, nx, ny]);
+      yield { type: "frontier", pos: [nx, ny] };
+    }
   }
 
   while (walls.length > 0) {
-    const idx = Math.floor(Math.random() * walls.length);
+    const idx = Math.floor(random() * walls.length);
     const [wallX, wallY, cellX, cellY] = walls[idx];
     walls.splice(idx, 1);
 
     if (maze[cellY][cellX] === CELL_TYPES.WALL) {
-      maze[wallY][wallX] = CELL_TYPES.NODE;
-      maze[cellY][cellX] = CELL_TYPES.NODE;
+      yield* carve(maze, wallX, wallY);
+      yield* carve(maze, cellX, cellY);
 
       for (const [dx, dy] of directions) {
         const nx = cellX + dx;
@@ -78,32 +461,432 @@ export function generateMaze(config: MazeConfig): number[][] {
             maze[wallBetweenY][wallBetweenX] === CELL_TYPES.WALL
           ) {
             walls.push([wallBetweenX, wallBetweenY, nx, ny]);
+            yield { type: "frontier", pos: [nx, ny] };
           }
         }
       }
     }
   }
+}
+
+// Depth-first walk that backs up whenever it boxes itself in
+function* recursiveBacktrackerCarver(
+  maze: number[][],
+  random: Random
+): GenerationSteps {
+  const stack = [pick(latticeCells(maze), random)];
+  yield* carve(maze, ...stack[0]);
+
+  while (stack.length > 0) {
+    const [x, y] = stack[stack.length - 1];
+    const unvisited = latticeNeighbors(maze, x, y).filter(isUncarved(maze));
+    if (unvisited.length === 0) {
+      stack.pop();
+      continue;
+    }
+    const next = pick(unvisited, random);
+    yield* carvePassage(maze, [x, y], next);
+    stack.push(next);
+  }
+}
+
+// Randomized Kruskal's: opens walls in random order unless that would
+// join two cells that are already connected
+function* kruskalCarver(maze: number[][], random: Random): GenerationSteps {
+  const cols = (maze[0].length - 1) / 2;
+  const id = ([x, y]: number[]) => ((y - 1) / 2) * cols + (x - 1) / 2;
+  const cells = latticeCells(maze);
+  const parent = cells.map((_, i) => i);
+  const find = (i: number) => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const edges: [number[], number[]][] = [];
+  for (const [x, y] of cells) {
+    for (const next of latticeNeighbors(maze, x, y)) {
+      // Right and down only, so each wall is listed once
+      if (next[0] > x || next[1] > y) edges.push([[x, y], next]);
+    }
+  }
+
+  for (const [a, b] of shuffle(edges, random)) {
+    const rootA = find(id(a));
+    const rootB = find(id(b));
+    if (rootA === rootB) continue;
+    parent[rootA] = rootB;
+    yield* carvePassage(maze, a, b);
+  }
+}
+
+// Wilson's: loop-erased random walks from every cell until they hit the
+// maze, which samples uniformly among all perfect mazes
+function* wilsonCarver(maze: number[][], random: Random): GenerationSteps {
+  const cells = shuffle(latticeCells(maze), random);
+  yield* carve(maze, ...cells[0]);
+
+  for (const cell of cells) {
+    if (maze[cell[1]][cell[0]] !== CELL_TYPES.WALL) continue;
+
+    // Only the last exit taken from each cell is kept, which erases loops
+    const exits = new Map<string, [number, number]>();
+    let [x, y] = cell;
+    while (maze[y][x] === CELL_TYPES.WALL) {
+      const next = pick(latticeNeighbors(maze, x, y), random);
+      exits.set(posKey([x, y]), next);
+      [x, y] = next;
+    }
+
+    [x, y] = cell;
+    while (maze[y][x] === CELL_TYPES.WALL) {
+      const [nx, ny] = exits.get(posKey([x, y]))!;
+      yield* carve(maze, x, y);
+      yield* carve(maze, (x + nx) / 2, (y + ny) / 2);
+      [x, y] = [nx, ny];
+    }
+  }
+}
+
+// Aldous–Broder: a random walk that carves whenever it enters a new cell.
+// Uniform like Wilson's, but slow to finish off the last cells.
+function* aldousBroderCarver(
+  maze: number[][],
+  random: Random
+): GenerationSteps {
+  const cells = latticeCells(maze);
+  let [x, y] = pick(cells, random);
+  yield* carve(maze, x, y);
+  let visited = 1;
+
+  while (visited < cells.length) {
+    const next = pick(latticeNeighbors(maze, x, y), random);
+    if (isUncarved(maze)(next)) {
+      yield* carvePassage(maze, [x, y], next);
+      visited++;
+    }
+    [x, y] = next;
+  }
+}
+
+// Eller's: one row at a time, tracking which cells of the row are connected
+function* ellerCarver(maze: number[][], random: Random): GenerationSteps {
+  const cols = (maze[0].length - 1) / 2;
+  const rows = (maze.length - 1) / 2;
+  let sets = Array.from({ length: cols }, (_, c) => c);
+  let nextSet = cols;
+
+  for (let r = 0; r < rows; r++) {
+    const y = 2 * r + 1;
+    const lastRow = r === rows - 1;
+    for (let c = 0; c < cols; c++) yield* carve(maze, 2 * c + 1, y);
+
+    // Join neighbours from different sets; the last row joins all of them
+    for (let c = 0; c < cols - 1; c++) {
+      if (sets[c] === sets[c + 1] || (!lastRow && random() < 0.5)) continue;
+      yield* carve(maze, 2 * c + 2, y);
+      const kept = sets[c];
+      const merged = sets[c + 1];
+      sets = sets.map((set) => (set === merged ? kept : set));
+    }
+    if (lastRow) break;
+
+    // Every set continues into the next row at least once
+    const members = new Map<number, number[]>();
+    sets.forEach((set, c) =>
+      members.set(set, [...(members.get(set) ?? []), c])
+    );
+    const below: number[] = Array(cols).fill(-1);
+    for (const [set, columns] of members) {
+      const drops = 1 + Math.floor(random() * columns.length);
+      for (const c of shuffle(columns, random).slice(0, drops)) {
+        yield* carve(maze, 2 * c + 1, y + 1);
+        below[c] = set;
+      }
+    }
+    sets = below.map((set) => (set === -1 ? nextSet++ : set));
+  }
+}
+
+// Recursive division: starts from an open room and splits each chamber
+// with a wall that has a single gap
+function* recursiveDivisionCarver(
+  maze: number[][],
+  random: Random
+): GenerationSteps {
+  const h = maze.length;
+  const w = maze[0].length;
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) yield* carve(maze, x, y);
+  }
+
+  // Chambers as inclusive bounds on cell (odd) coordinates
+  const chambers = [[1, 1, w - 2, h - 2]];
+  while (chambers.length > 0) {
+    const [x0, y0, x1, y1] = chambers.pop()!;
+    const spanX = x1 - x0;
+    const spanY = y1 - y0;
+    if (spanX < 2 && spanY < 2) continue;
+
+    const vertical =
+      spanY < 2 ||
+      (spanX >= 2 && (spanX > spanY || (spanX === spanY && random() < 0.5)));
+    if (vertical) {
+      const wallX = x0 + 1 + 2 * Math.floor(random() * (spanX / 2));
+      const gapY = y0 + 2 * Math.floor(random() * (spanY / 2 + 1));
+      for (let y = y0; y <= y1; y++) {
+        if (y !== gapY) yield* buildWall(maze, wallX, y);
+      }
+      chambers.push([x0, y0, wallX - 1, y1], [wallX + 1, y0, x1, y1]);
+    } else {
+      const wallY = y0 + 1 + 2 * Math.floor(random() * (spanY / 2));
+      const gapX = x0 + 2 * Math.floor(random() * (spanX / 2 + 1));
+      for (let x = x0; x <= x1; x++) {
+        if (x !== gapX) yield* buildWall(maze, x, wallY);
+      }
+      chambers.push([x0, y0, x1, wallY - 1], [x0, wallY + 1, x1, y1]);
+    }
+  }
+}
+
+// Binary tree: every cell opens either north or west, so the top row and
+// left column are always straight corridors
+function* binaryTreeCarver(maze: number[][], random: Random): GenerationSteps {
+  for (const [x, y] of latticeCells(maze)) {
+    yield* carve(maze, x, y);
+    const options: number[][] = [];
+    if (y > 1) options.push([x, y - 2]);
+    if (x > 1) options.push([x - 2, y]);
+    if (options.length > 0) {
+      yield* carvePassage(maze, [x, y], pick(options, random));
+    }
+  }
+}
+
+// Sidewinder: rows of eastward runs, each closed by one passage north
+function* sidewinderCarver(maze: number[][], random: Random): GenerationSteps {
+  const cols = (maze[0].length - 1) / 2;
+  const rows = (maze.length - 1) / 2;
+
+  for (let r = 0; r < rows; r++) {
+    const y = 2 * r + 1;
+    let run: number[] = [];
+    for (let c = 0; c < cols; c++) {
+      const x = 2 * c + 1;
+      yield* carve(maze, x, y);
+      run.push(x);
+
+      const atEastEdge = c === cols - 1;
+      // The top row has nowhere to go north, so it is one long corridor
+      const closeRun = r > 0 && (atEastEdge || random() < 0.5);
+      if (closeRun) {
+        yield* carve(maze, pick(run, random), y - 1);
+        run = [];
+      } else if (!atEastEdge) {
+        yield* carve(maze, x + 1, y);
+      }
+    }
+  }
+}
+
+// Growing tree: keeps a list of active cells and grows from either the
+// newest (backtracker-like) or a random one (Prim-like), half the time each
+function* growingTreeCarver(maze: number[][], random: Random): GenerationSteps {
+  const active = [pick(latticeCells(maze), random)];
+  yield* carve(maze, ...active[0]);
+
+  while (active.length > 0) {
+    const index =
+      random() < 0.5 ? active.length - 1 : Math.floor(random() * active.length);
+    const [x, y] = active[index];
+    const unvisited = latticeNeighbors(maze, x, y).filter(isUncarved(maze));
+    if (unvisited.length === 0) {
+      active.splice(index, 1);
+      continue;
+    }
+    const next = pick(unvisited, random);
+    yield* carvePassage(maze, [x, y], next);
+    active.push(next);
+  }
+}
+
+/**
+ * Randomized Prim's on a hex grid. Hex rows don't split into cells and walls
+ * on alternating coordinates, so every hex is either open or a wall: a
+ * frontier hex is carved only while it touches exactly one open hex, which
+ * keeps passages one hex wide and the maze a tree. The border stays solid.
+ */
+function* hexPrimCarver(maze: number[][], random: Random): GenerationSteps {
+  const h = maze.length;
+  const w = maze[0].length;
+  const inside = ([x, y]: [number, number]) =>
+    x > 0 && x < w - 1 && y > 0 && y < h - 1;
+  const frontier: [number, number][] = [];
+  const queued = new Set<string>();
+
+  function* grow(x: number, y: number): GenerationSteps {
+    yield* carve(maze, x, y);
+    for (const next of hexNeighbors(x, y)) {
+      const key = posKey(next);
+      if (!inside(next) || maze[next[1]][next[0]] !== CELL_TYPES.WALL) continue;
+      if (queued.has(key)) continue;
+      queued.add(key);
+      frontier.push(next);
+      yield { type: "frontier", pos: next };
+    }
+  }
+
+  yield* grow(
+    1 + Math.floor(random() * (w - 2)),
+    1 + Math.floor(random() * (h - 2))
+  );
+  while (frontier.length > 0) {
+    const [x, y] = frontier.splice(
+      Math.floor(random() * frontier.length),
+      1
+    )[0];
+    const open = hexNeighbors(x, y).filter(
+      ([nx, ny]) => maze[ny][nx] === CELL_TYPES.NODE
+    ).length;
+    if (open === 1) yield* grow(x, y);
+  }
+}
+
+/**
+ * Randomized Prim's on a torus. With even dimensions the lattice of cells
+ * on odd coordinates repeats across the edges, the walls on row and column 0
+ * sitting between the last cells and the first ones, so passages can run
+ * across every edge. There is no border.
+ */
+function* torusPrimCarver(maze: number[][], random: Random): GenerationSteps {
+  const h = maze.length;
+  const w = maze[0].length;
+  const walls: [number, number, number, number][] = [];
+  const queued = new Set<string>();
+
+  function* grow(x: number, y: number): GenerationSteps {
+    yield* carve(maze, x, y);
+    for (const [dx, dy] of LATTICE_DIRS) {
+      const nx = wrap(x + dx, w);
+      const ny = wrap(y + dy, h);
+      const key = posKey([nx, ny]);
+      if (maze[ny][nx] !== CELL_TYPES.WALL || queued.has(key)) continue;
+      queued.add(key);
+      walls.push([wrap(x + dx / 2, w), wrap(y + dy / 2, h), nx, ny]);
+      yield { type: "frontier", pos: [nx, ny] };
+    }
+  }
+
+  yield* grow(
+    1 + Math.floor(random() * (w / 2)) * 2,
+    1 + Math.floor(random() * (h / 2)) * 2
+  );
+  while (walls.length > 0) {
+    const [wallX, wallY, cellX, cellY] = walls.splice(
+      Math.floor(random() * walls.length),
+      1
+    )[0];
+    if (maze[cellY][cellX] !== CELL_TYPES.WALL) continue;
+    yield* carve(maze, wallX, wallY);
+    yield* grow(cellX, cellY);
+  }
+}
+
+export const mazeGenerators: Record<MazeGenerator, MazeCarver> = {
+  prim: primCarver,
+  "recursive-backtracker": recursiveBacktrackerCarver,
+  kruskal: kruskalCarver,
+  wilson: wilsonCarver,
+  "aldous-broder": aldousBroderCarver,
+  eller: ellerCarver,
+  "recursive-division": recursiveDivisionCarver,
+  "binary-tree": binaryTreeCarver,
+  sidewinder: sidewinderCarver,
+  "growing-tree": growingTreeCarver,
+};
+
+/**
+ * Generates a maze with the configured generator (Prim's by default)
+ * Returns a 2D matrix with integers representing cell types.
+ */
+export function generateMaze(config: MazeConfig): number[][] {
+  const steps = generateMazeSteps(config);
+  let step = steps.next();
+  while (!step.done) step = steps.next();
+  return step.value;
+}
+
+/**
+ * Generates a maze step by step: yields every carve, wall and opening as it
+ * happens, and returns the finished maze with terrain, start and goal.
+ */
+export function* generateMazeSteps(
+  config: MazeConfig
+): Generator<GenerationEvent, number[][], void> {
+  const {
+    width,
+    height,
+    wallDensity = 0.7,
+    terrainDensity = 0,
+    random = Math.random,
+    generator = "prim",
+    teleporterPairs = 0,
+    conveyors = 0,
+    topology = "square",
+  } = config;
+
+  // Ensure odd dimensions, or even ones on a torus so its lattice wraps
+  const parity = topology === "torus" ? 0 : 1;
+  const w = width % 2 === parity ? width : width + 1;
+  const h = height % 2 === parity ? height : height + 1;
+
+  // Fill maze with walls
+  const maze: number[][] = Array.from({ length: h }, () =>
+    Array(w).fill(CELL_TYPES.WALL)
+  );
+  const carver =
+    topology === "hex"
+      ? hexPrimCarver
+      : topology === "torus"
+        ? torusPrimCarver
+        : mazeGenerators[generator];
+  yield* carver(maze, random);
 
   // Create random extra openings depending on wallDensity
   if (wallDensity < 1.0) {
     const nOpenings = Math.floor(w * h * (1 - wallDensity) * 0.1);
     for (let i = 0; i < nOpenings; i++) {
-      const x = Math.floor(Math.random() * (w - 2)) + 1;
-      const y = Math.floor(Math.random() * (h - 2)) + 1;
+      const x = Math.floor(random() * (w - 2)) + 1;
+      const y = Math.floor(random() * (h - 2)) + 1;
       if (maze[y][x] === CELL_TYPES.WALL) {
-        const emptyNeighbors = [
-          maze[y - 1]?.[x] === CELL_TYPES.NODE,
-          maze[y + 1]?.[x] === CELL_TYPES.NODE,
-          maze[y]?.[x - 1] === CELL_TYPES.NODE,
-          maze[y]?.[x + 1] === CELL_TYPES.NODE,
-        ].filter(Boolean).length;
+        const around =
+          topology === "hex"
+            ? hexNeighbors(x, y)
+            : ORTHOGONAL_DIRS.map(([dx, dy]) =>
+                topology === "torus"
+                  ? [wrap(x + dx, w), wrap(y + dy, h)]
+                  : [x + dx, y + dy]
+              );
+        const emptyNeighbors = around.filter(
+          ([nx, ny]) => maze[ny]?.[nx] === CELL_TYPES.NODE
+        ).length;
         if (emptyNeighbors >= 2) {
           maze[y][x] = CELL_TYPES.NODE;
+          yield { type: "opening", pos: [x, y] };
         }
       }
     }
   }
 
+  if (terrainDensity > 0) scatterTerrain(maze, terrainDensity, random);
+  if (teleporterPairs > 0) {
+    placeTeleporters(maze, teleporterPairs, random, topology);
+  }
+  // After the teleporters: checking a conveyor indexes the layer's teleporters
+  if (conveyors > 0) placeConveyors(maze, conveyors, random, topology);
+
   // Find positions for START and GOAL
   const nodes: [number, number][] = [];
   for (let y = 1; y < h - 1; y++) {
@@ -119,7 +902,7 @@ export function generateMaze(config: MazeConfig): number[][] {
   const topLeft = nodes.filter(([x, y]) => x < w / 3 && y < h / 3);
   const startPos =
     topLeft.length > 0
-      ? topLeft[Math.floor(Math.random() * topLeft.length)]
+      ? topLeft[Math.floor(random() * topLeft.length)]
       : nodes[0];
   maze[startPos[1]][startPos[0]] = CELL_TYPES.START;
 
@@ -128,62 +911,156 @@ export function generateMaze(config: MazeConfig): number[][] {
   );
   const goalPos =
     bottomRight.length > 0
-      ? bottomRight[Math.floor(Math.random() * bottomRight.length)]
+      ? bottomRight[Math.floor(random() * bottomRight.length)]
       : nodes[nodes.length - 1];
   maze[goalPos[1]][goalPos[0]] = CELL_TYPES.GOAL;
 
   return maze;
 }
 
+// Generates a maze and keeps every step of it, for replaying the generation
+export function recordMazeGeneration(config: MazeConfig): {
+  maze: number[][];
+  steps: GenerationEvent[];
+} {
+  const events: GenerationEvent[] = [];
+  const generation = generateMazeSteps(config);
+  let step = generation.next();
+  while (!step.done) {
+    events.push(step.value);
+    step = generation.next();
+  }
+  return { maze: step.value, steps: events };
+}
+
+/**
+ * One elevator: a PORTAL_UP cell and the PORTAL_DOWN cell it leads to on a
+ * higher layer, possibly several floors up. It can be ridden both ways.
+ */
+export interface PortalLink {
+  from: Position3D;
+  to: Position3D;
+}
+
+/**
+ * Elevators of a 3D maze. The links are the source of truth; `exits` indexes
+ * where each portal cell leads, by posKey, for neighbour expansion.
+ */
+export interface PortalMap {
+  links: PortalLink[];
+  exits: Map<string, Position3D[]>;
+}
+
+export function createPortalMap(links: PortalLink[]): PortalMap {
+  const exits = new Map<string, Position3D[]>();
+  const addExit = (from: Position3D, to: Position3D) => {
+    const key = posKey(from);
+    exits.set(key, [...(exits.get(key) ?? []), to]);
+  };
+  for (const { from, to } of links) {
+    addExit(from, to);
+    addExit(to, from);
+  }
+  return { links, exits };
+}
+
+// The elevator between two cells, if a single ride connects them
+export function portalLinkBetween(
+  portals: PortalMap | undefined,
+  a: number[],
+  b: number[]
+): PortalLink | undefined {
+  return portals?.links.find(
+    ({ from, to }) =>
+      (isSamePos(from, a) && isSamePos(to, b)) ||
+      (isSamePos(from, b) && isSamePos(to, a))
+  );
+}
+
+// Stacks `layers` square mazes generated from `config` and links them with
+// elevators: `elevatorsPerFloor` start on every floor but the top one, each
+// climbing between one and `elevatorSpan` floors
 export function generateMaze3D(
   layers: number,
-  width: number,
-  height: number
-): number[][][] {
+  config: MazeConfig
+): { maze: number[][][]; portals: PortalMap } {
+  const {
+    width,
+    height,
+    random = Math.random,
+    elevatorsPerFloor = 1,
+    elevatorSpan = 1,
+    dropHolesPerFloor = 0,
+  } = config;
   let maze3D: number[][][];
-  let success = false;
   let start: [number, number, number] | null = null;
   let goal: [number, number, number] | null = null;
 
   // Step 1: Generate layers as 2D mazes
   maze3D = [];
-  for (let z = 0; z < layers; z++) maze3D.push(generateMaze({ width, height }));
+  for (let z = 0; z < layers; z++)
+    maze3D.push(generateMaze({ ...config, random, topology: "square" }));
 
-  // Step 2: Place portals to connect layers, ensure at least one portal per layer
-  const portalPositions: [number, number, number][] = [];
-  for (let z = 0; z < layers - 1; z++) {
-    const mazeA = maze3D[z];
-    const mazeB = maze3D[z + 1];
-
-    // Candidates for PORTAL_UP in layer A
-    const upCandidates: [number, number][] = [];
+  // Open cells of a layer that no elevator uses yet
+  const portalCandidates = (layer: number[][]) => {
+    const candidates: [number, number][] = [];
     for (let y = 1; y < height - 1; y++) {
       for (let x = 1; x < width - 1; x++) {
-        if (mazeA[y][x] !== CELL_TYPES.WALL) {
-          upCandidates.push([x, y]);
+        const cell = layer[y][x];
+        if (
+          cell !== CELL_TYPES.WALL &&
+          cell !== CELL_TYPES.PORTAL_UP &&
+          cell !== CELL_TYPES.PORTAL_DOWN &&
+          !isTeleporter(cell)
+        ) {
+          candidates.push([x, y]);
         }
       }
     }
+    return candidates;
+  };
 
-    // Candidates for PORTAL_DOWN in layer B
-    const downCandidates: [number, number][] = [];
-    for (let y = 1; y < height - 1; y++) {
-      for (let x = 1; x < width - 1; x++) {
-        if (mazeB[y][x] !== CELL_TYPES.WALL) {
-          downCandidates.push([x, y]);
-        }
-      }
-    }
+  // Step 2: Place elevators to connect layers, at least one per floor
+  const links: PortalLink[] = [];
+  for (let z = 0; z < layers - 1; z++) {
+    for (let i = 0; i < elevatorsPerFloor; i++) {
+      const reach = Math.min(elevatorSpan, layers - 1 - z);
+      const top = z + (reach > 1 ? 1 + Math.floor(random() * reach) : 1);
+      const upCandidates = portalCandidates(maze3D[z]);
+      const downCandidates = portalCandidates(maze3D[top]);
+      if (upCandidates.length === 0 || downCandidates.length === 0) break;
 
-    if (upCandidates.length > 0 && downCandidates.length > 0) {
       const [upX, upY] =
-        upCandidates[Math.floor(Math.random() * upCandidates.length)];
+        upCandidates[Math.floor(random() * upCandidates.length)];
       const [downX, downY] =
-        downCandidates[Math.floor(Math.random() * downCandidates.length)];
-      mazeA[upY][upX] = CELL_TYPES.PORTAL_UP;
-      mazeB[downY][downX] = CELL_TYPES.PORTAL_DOWN;
-      portalPositions.push([upX, upY, z]);
-      // Optionally keep track of down portal too: portalPositions.push([downX, downY, z+1]);
+        downCandidates[Math.floor(random() * downCandidates.length)];
+      maze3D[z][upY][upX] = CELL_TYPES.PORTAL_UP;
+      maze3D[top][downY][downX] = CELL_TYPES.PORTAL_DOWN;
+      links.push({ from: [upX, upY, z], to: [downX, downY, top] });
+    }
+  }
+
+  const portals = createPortalMap(links);
+
+  // Step 2b: Drop holes over open cells of the floor below, kept only where
+  // every cell can still get back to the rest of the maze
+  for (let z = 1; z < layers; z++) {
+    const open = portalCandidates(maze3D[z]).filter(
+      ([x, y]) =>
+        maze3D[z][y][x] === CELL_TYPES.NODE &&
+        maze3D[z - 1][y][x] !== CELL_TYPES.WALL
+    );
+    let placed = 0;
+    for (
+      let tries = 0;
+      tries < dropHolesPerFloor * 10 && placed < dropHolesPerFloor;
+      tries++
+    ) {
+      if (open.length === 0) break;
+      const [x, y] = open.splice(Math.floor(random() * open.length), 1)[0];
+      maze3D[z][y][x] = CELL_TYPES.DROP_HOLE;
+      if (reachesEveryCell(maze3D, [x, y, z], "3D", { portals })) placed++;
+      else maze3D[z][y][x] = CELL_TYPES.NODE;
     }
   }
 
@@ -229,11 +1106,11 @@ export function generateMaze3D(
     }
   }
 
-  if (eligiblePairs.length === 0) throw new Error("werros");
+  if (eligiblePairs.length === 0)
+    throw new Error("No start and goal cells fit on different floors");
 
   // Pick random eligible pair
-  const chosen =
-    eligiblePairs[Math.floor(Math.random() * eligiblePairs.length)];
+  const chosen = eligiblePairs[Math.floor(random() * eligiblePairs.length)];
   start = chosen.start;
   goal = chosen.goal;
 
@@ -250,7 +1127,7 @@ export function generateMaze3D(
   maze3D[start[2]][start[1]][start[0]] = CELL_TYPES.START;
   maze3D[goal[2]][goal[1]][goal[0]] = CELL_TYPES.GOAL;
 
-  return maze3D;
+  return { maze: maze3D, portals };
 }
 
 // Helper to print maze to console
@@ -262,6 +1139,18 @@ export function printMaze(maze: number[][]): void {
     [CELL_TYPES.GOAL]: "G",
     [CELL_TYPES.PORTAL_UP]: "^",
     [CELL_TYPES.PORTAL_DOWN]: "v",
+    [CELL_TYPES.MUD]: "%",
+    [CELL_TYPES.WATER]: "~",
+    [CELL_TYPES.SAND]: ":",
+    [CELL_TYPES.TELEPORTER_1]: "1",
+    [CELL_TYPES.TELEPORTER_2]: "2",
+    [CELL_TYPES.TELEPORTER_3]: "3",
+    [CELL_TYPES.TELEPORTER_4]: "4",
+    [CELL_TYPES.CONVEYOR_NORTH]: "↑",
+    [CELL_TYPES.CONVEYOR_EAST]: "→",
+    [CELL_TYPES.CONVEYOR_SOUTH]: "↓",
+    [CELL_TYPES.CONVEYOR_WEST]: "←",
+    [CELL_TYPES.DROP_HOLE]: "O",
   };
   console.log(
     maze
@@ -281,6 +1170,21 @@ export const COLORS = {
   PORTAL_UP: 0x7b68ee, // purple-ish for up
   PORTAL_DOWN: 0x00ced1, // teal for down
   THREAD_DEFAULT: 0x4444ff,
+  VISITED_BACKWARD: 0xc71585, // bidirectional search, goal side
+  FRONTIER_BACKWARD: 0xff9ed2,
+  MEETING: 0xffffff,
+  JUMP_POINT: 0xff3b3b,
+  MUD: 0x6b4226,
+  WATER: 0x1f4e79,
+  SAND: 0xc2a35a,
+  LANDMARK: 0xff00ff,
+  // Maze generation
+  CARVED: 0x2e8b57,
+  OPENING: 0xffa07a,
+  // Teleporter pairs, in TELEPORTER_CELLS order
+  TELEPORTERS: [0xff1493, 0x7fff00, 0xffff00, 0xff4500],
+  CONVEYOR: 0xe0e0e0,
+  DROP_HOLE: 0xdc143c,
 };
 
 // Helper types
@@ -300,113 +1204,831 @@ export type PaintThreadFunction = (
 ) => void;
 
 export interface SearchResult {
-  path: Position[];
+  path: number[][];
   visitedCount: number;
   success: boolean;
+  // Iterative deepening only: the last depth/f bound, repeated expansions
+  // and whether the search gave up at options.expansionLimit
+  bound?: number;
+  reExpansions?: number;
+  limitReached?: boolean;
+  // Sum of move costs along the path, filled in by the search worker
+  pathCost?: number;
+  // Cheapest possible path cost, filled in by the worker for searches that
+  // can return a costlier path than that
+  optimalCost?: number;
+  // Why the search ran as another algorithm, see the "fallback" event
+  fallback?: string;
+  // Most entries its queue, stack or open sets held at once, stale stack
+  // entries of the depth-first searches included
+  peakFrontier?: number;
 }
 
-function getNeighbors2D(pos: Position, maze: number[][]): Position[] {
-  const [x, y] = pos;
-  const neighbors: Position[] = [];
-  const dirs = [
-    [0, 1],
-    [1, 0],
-    [0, -1],
-    [-1, 0],
-  ];
-  for (const [dx, dy] of dirs) {
-    const nx = x + dx,
-      ny = y + dy;
-    if (
-      ny >= 0 &&
-      ny < maze.length &&
-      nx >= 0 &&
-      nx < maze[0].length &&
-      maze[ny][nx] !== CELL_TYPES.WALL
-    )
-      neighbors.push([nx, ny]);
-  }
-  return neighbors;
-}
+// Which frontier an event belongs to; single-direction searches are "forward"
+export type SearchSide = "forward" | "backward";
 
-export type Position3D = [number, number, number];
+/**
+ * Events yielded by the search generators. A renderer (or a headless consumer)
+ * decides what each step looks like; the algorithms never paint directly.
+ */
+export type SearchEvent =
+  | { type: "expand"; pos: number[]; side?: SearchSide }
+  | { type: "enqueue"; pos: number[]; parent: number[]; side?: SearchSide }
+  | {
+      type: "relax";
+      pos: number[];
+      parent: number[];
+      cost: number;
+      side?: SearchSide;
+    }
+  | { type: "meet"; pos: number[] }
+  // Jump Point Search: `to` was reached by a straight jump from `from`
+  | { type: "jump"; from: number[]; to: number[] }
+  | { type: "iteration"; bound: number; reExpansions: number }
+  // The search can't run on this graph and hands over to another one, e.g.
+  // Jump Point Search to plain A*
+  | { type: "fallback"; reason: string }
+  | { type: "path-found"; path: number[][]; meet?: number[] }
+  | { type: "exhausted" };
+
+export type SearchGenerator = Generator<SearchEvent, SearchResult, void>;
+
+// How a priority queue orders entries with equal priority
+export type TieBreaking = "fifo" | "lifo";
+
+// How cells within a layer connect: orthogonally only, or also diagonally,
+// optionally refusing diagonals that squeeze past a wall corner
+export type Movement = "4-way" | "8-way" | "8-way-no-corner-cutting";
+
+// Distance estimate used by the informed searches; "auto" matches movement
+export type Heuristic =
+  | "auto"
+  | "manhattan"
+  | "euclidean"
+  | "chebyshev"
+  | "octile"
+  | "hex"
+  | "zero"
+  | "alt";
+
+// Read by the maze graphs (createSearchGraph), except tieBreaking, weight
+// and expansionLimit, which steer the algorithms themselves
+export interface SearchOptions {
+  tieBreaking?: TieBreaking;
+  terrainCosts?: TerrainCosts;
+  movement?: Movement;
+  // 2D only; hex cells have six neighbours and no diagonals
+  topology?: Topology;
+  heuristic?: Heuristic;
+  // Weighted A*: f = g + weight * h, where 1 is plain A*
+  weight?: number;
+  // Elevators of a 3D maze; portal cells lead nowhere without them
+  portals?: PortalMap;
+  // Cost of riding an elevator up or down one floor
+  elevatorCost?: number;
+  // Iterative deepening: expansions, repeats included, before giving up
+  expansionLimit?: number;
+}
 
-export function getNeighbors3D(
-  pos: Position3D,
-  maze3D: number[][][]
-): Position3D[] {
-  const [x, y, z] = pos;
-  const neighbors: Position3D[] = [];
-  const layer = maze3D[z];
-  const height = layer.length;
-  const width = layer[0].length;
-  const dirs = [
-    [0, 1],
-    [1, 0],
-    [0, -1],
-    [-1, 0],
-  ];
-  for (const [dx, dy] of dirs) {
-    const nx = x + dx,
-      ny = y + dy;
-    if (
-      ny >= 0 &&
-      ny < height &&
-      nx >= 0 &&
-      nx < width &&
-      layer[ny][nx] !== CELL_TYPES.WALL
-    )
-      neighbors.push([nx, ny, z]);
-  }
+export const DEFAULT_EXPANSION_LIMIT = 200_000;
 
-  // Find up-neighbors: All [nx,ny] in layer z+1 where cell is PORTAL_DOWN
-  if (layer[y][x] === CELL_TYPES.PORTAL_UP && maze3D[z + 1]) {
-    const nextLayer = maze3D[z + 1];
-    for (let ny = 0; ny < nextLayer.length; ny++) {
-      for (let nx = 0; nx < nextLayer[ny].length; nx++) {
-        if (nextLayer[ny][nx] === CELL_TYPES.PORTAL_DOWN) {
-          neighbors.push([nx, ny, z + 1]);
-        }
-      }
-    }
-  }
+// One move out of (or, from predecessors, onto) a node and what it costs
+export interface SearchEdge {
+  node: number[];
+  cost: number;
+}
 
-  // Find down-neighbors: All [nx,ny] in layer z-1 where cell is PORTAL_UP
-  if (layer[y][x] === CELL_TYPES.PORTAL_DOWN && maze3D[z - 1]) {
-    const prevLayer = maze3D[z - 1];
-    for (let ny = 0; ny < prevLayer.length; ny++) {
-      for (let nx = 0; nx < prevLayer[ny].length; nx++) {
-        if (prevLayer[ny][nx] === CELL_TYPES.PORTAL_UP) {
-          neighbors.push([nx, ny, z - 1]);
+/**
+ * What the search algorithms see of a maze, or of any other graph. Nodes are
+ * tuples of numbers: [x, y] cells, [x, y, z] cells of a layered maze or [id]
+ * for an arbitrary graph. Moves may be one-way and costs are the forward
+ * ones in both directions, so walking predecessors backwards adds up to the
+ * same path cost as walking neighbors forwards.
+ */
+export interface SearchGraph {
+  neighbors(node: number[]): SearchEdge[];
+  // Nodes with a move onto `node`, for searches that walk edges backwards
+  predecessors(node: number[]): SearchEdge[];
+  // Estimated cost of the cheapest path from a to b
+  heuristic(a: number[], b: number[]): number;
+  // Identifies a node in maps and sets
+  key(node: number[]): string;
+  // The grid behind a 4-way square 2D maze, for searches that exploit its
+  // symmetry; absent on every other graph
+  grid?: number[][];
+}
+
+export type SearchAlgorithm = (
+  graph: SearchGraph,
+  start: number[],
+  goal: number[],
+  options?: SearchOptions
+) => SearchGenerator;
+
+interface HeapEntry<T> {
+  key: string;
+  value: T;
+  // Compared lexicographically, lower first
+  priority: number[];
+  seq: number;
+}
+
+/**
+ * Binary min-heap with decrease-key, indexed by node key. Entries with equal
+ * priority are ordered by insertion sequence (FIFO or LIFO), so two runs on
+ * the same maze always expand nodes in the same order.
+ */
+export class IndexedBinaryHeap<T> {
+  private entries: HeapEntry<T>[] = [];
+  private positions = new Map<string, number>();
+  private nextSeq = 0;
+  private tieBreaking: TieBreaking;
+
+  constructor(tieBreaking: TieBreaking = "fifo") {
+    this.tieBreaking = tieBreaking;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  has(key: string): boolean {
+    return this.positions.has(key);
+  }
+
+  priorityOf(key: string): number[] | undefined {
+    const index = this.positions.get(key);
+    return index === undefined ? undefined : this.entries[index].priority;
+  }
+
+  push(key: string, value: T, priority: number[]): void {
+    if (this.positions.has(key)) {
+      this.decreaseKey(key, value, priority);
+      return;
+    }
+    this.entries.push({ key, value, priority, seq: this.nextSeq++ });
+    this.positions.set(key, this.entries.length - 1);
+    this.siftUp(this.entries.length - 1);
+  }
+
+  /** Lowers the priority of a queued entry; higher priorities are ignored. */
+  decreaseKey(key: string, value: T, priority: number[]): void {
+    const index = this.positions.get(key);
+    if (index === undefined) return;
+    const entry = this.entries[index];
+    if (comparePriority(priority, entry.priority) >= 0) return;
+    entry.value = value;
+    entry.priority = priority;
+    // A re-prioritised entry counts as newly inserted for tie-breaking
+    entry.seq = this.nextSeq++;
+    this.siftUp(index);
+  }
+
+  pop(): T | undefined {
+    const top = this.entries[0];
+    if (!top) return undefined;
+    const last = this.entries.pop()!;
+    this.positions.delete(top.key);
+    if (last !== top) {
+      this.entries[0] = last;
+      this.positions.set(last.key, 0);
+      this.siftDown(0);
+    }
+    return top.value;
+  }
+
+  peekPriority(): number[] | undefined {
+    return this.entries[0]?.priority;
+  }
+
+  private less(a: HeapEntry<T>, b: HeapEntry<T>): boolean {
+    const cmp = comparePriority(a.priority, b.priority);
+    if (cmp !== 0) return cmp < 0;
+    return this.tieBreaking === "fifo" ? a.seq < b.seq : a.seq > b.seq;
+  }
+
+  private swap(i: number, j: number): void {
+    const entries = this.entries;
+    [entries[i], entries[j]] = [entries[j], entries[i]];
+    this.positions.set(entries[i].key, i);
+    this.positions.set(entries[j].key, j);
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (!this.less(this.entries[index], this.entries[parent])) return;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const n = this.entries.length;
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < n && this.less(this.entries[left], this.entries[smallest]))
+        smallest = left;
+      if (right < n && this.less(this.entries[right], this.entries[smallest]))
+        smallest = right;
+      if (smallest === index) return;
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+}
+
+function comparePriority(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+const ORTHOGONAL_DIRS = [
+  [0, 1],
+  [1, 0],
+  [0, -1],
+  [-1, 0],
+];
+const DIAGONAL_DIRS = [
+  [1, 1],
+  [1, -1],
+  [-1, 1],
+  [-1, -1],
+];
+
+// Walkable cells around (x, y) within one layer, across the edges of a
+// torus. Movement only applies to square grids and tori.
+function layerNeighbors(
+  layer: number[][],
+  x: number,
+  y: number,
+  movement: Movement,
+  topology: Topology = "square"
+): Position[] {
+  const h = layer.length;
+  const w = layer[0].length;
+  const at = (nx: number, ny: number): Position =>
+    topology === "torus" ? [wrap(nx, w), wrap(ny, h)] : [nx, ny];
+  const isOpen = (nx: number, ny: number) => {
+    const [cx, cy] = at(nx, ny);
+    return (
+      cy >= 0 &&
+      cy < h &&
+      cx >= 0 &&
+      cx < w &&
+      layer[cy][cx] !== CELL_TYPES.WALL
+    );
+  };
+  if (topology === "hex") {
+    return hexNeighbors(x, y).filter(([nx, ny]) => isOpen(nx, ny));
+  }
+  const neighbors: Position[] = [];
+  for (const [dx, dy] of ORTHOGONAL_DIRS) {
+    if (isOpen(x + dx, y + dy)) neighbors.push(at(x + dx, y + dy));
+  }
+  if (movement === "4-way") return neighbors;
+  for (const [dx, dy] of DIAGONAL_DIRS) {
+    if (!isOpen(x + dx, y + dy)) continue;
+    if (
+      movement === "8-way-no-corner-cutting" &&
+      (!isOpen(x + dx, y) || !isOpen(x, y + dy))
+    )
+      continue;
+    neighbors.push(at(x + dx, y + dy));
+  }
+  return neighbors;
+}
+
+export interface TeleporterPair {
+  type: number;
+  a: Position;
+  b: Position;
+}
+
+/**
+ * Teleporter pairs of one layer. A type that doesn't occur exactly twice,
+ * e.g. after an edit removed one end, links nothing.
+ */
+export function teleporterPairs(layer: number[][]): TeleporterPair[] {
+  const cells = new Map<number, Position[]>();
+  layer.forEach((row, y) =>
+    row.forEach((cell, x) => {
+      if (isTeleporter(cell))
+        cells.set(cell, [...(cells.get(cell) ?? []), [x, y]]);
+    })
+  );
+  return [...cells]
+    .filter(([, ends]) => ends.length === 2)
+    .map(([type, [a, b]]) => ({ type, a, b }));
+}
+
+// Teleporter twin of every linked cell by posKey, built once per layer;
+// layers are never mutated once they are searched
+const teleporterIndex = new WeakMap<number[][], Map<string, Position>>();
+
+function teleporterTwin(layer: number[][], x: number, y: number) {
+  if (!isTeleporter(layer[y][x])) return undefined;
+  let twins = teleporterIndex.get(layer);
+  if (!twins) {
+    twins = new Map();
+    for (const { a, b } of teleporterPairs(layer)) {
+      twins.set(posKey(a), b);
+      twins.set(posKey(b), a);
+    }
+    teleporterIndex.set(layer, twins);
+  }
+  return twins.get(posKey([x, y]));
+}
+
+// The one cell a conveyor of `type` at (x, y) lets you move to, if it is open
+function conveyorExit(
+  layer: number[][],
+  x: number,
+  y: number,
+  topology: Topology = "square",
+  type = layer[y][x]
+): Position[] {
+  const [dx, dy] = CONVEYOR_DIRECTIONS[type];
+  const [nx, ny] =
+    topology === "torus"
+      ? [wrap(x + dx, layer[0].length), wrap(y + dy, layer.length)]
+      : [x + dx, y + dy];
+  const cell = layer[ny]?.[nx] ?? CELL_TYPES.WALL;
+  return cell === CELL_TYPES.WALL ? [] : [[nx, ny]];
+}
+
+function getNeighbors2D(
+  pos: Position,
+  maze: number[][],
+  movement: Movement = "4-way",
+  topology: Topology = "square"
+): Position[] {
+  if (isConveyor(maze[pos[1]][pos[0]])) {
+    return conveyorExit(maze, pos[0], pos[1], topology);
+  }
+  const neighbors = layerNeighbors(maze, pos[0], pos[1], movement, topology);
+  const twin = teleporterTwin(maze, pos[0], pos[1]);
+  if (twin) neighbors.push(twin);
+  return neighbors;
+}
+
+export type Position3D = [number, number, number];
+
+export function getNeighbors3D(
+  pos: Position3D,
+  maze3D: number[][][],
+  movement: Movement = "4-way",
+  portals?: PortalMap
+): Position3D[] {
+  const [x, y, z] = pos;
+  const cell = maze3D[z][y][x];
+  if (cell === CELL_TYPES.DROP_HOLE) {
+    return z > 0 && maze3D[z - 1][y][x] !== CELL_TYPES.WALL
+      ? [[x, y, z - 1]]
+      : [];
+  }
+  if (isConveyor(cell)) {
+    return conveyorExit(maze3D[z], x, y).map(([nx, ny]) => [nx, ny, z]);
+  }
+  const neighbors: Position3D[] = layerNeighbors(maze3D[z], x, y, movement).map(
+    ([nx, ny]) => [nx, ny, z]
+  );
+
+  const twin = teleporterTwin(maze3D[z], x, y);
+  if (twin) neighbors.push([...twin, z]);
+
+  // Every elevator ride from this cell, up or down
+  const exits = portals?.exits.get(posKey(pos));
+  if (exits) neighbors.push(...exits);
+
+  return neighbors;
+}
+
+// Neighbor lookup shared by every algorithm, dispatching on the view type
+function getNeighbors(
+  pos: number[],
+  maze: number[][] | number[][][],
+  viewType: "2D" | "3D",
+  options: SearchOptions = {}
+): number[][] {
+  return viewType === "2D"
+    ? getNeighbors2D(
+        pos as Position,
+        maze as number[][],
+        options.movement,
+        options.topology
+      )
+    : getNeighbors3D(
+        pos as Position3D,
+        maze as number[][][],
+        options.movement,
+        options.portals
+      );
+}
+
+/**
+ * Cells with a move onto `pos`, for searches that walk edges backwards.
+ * Every move can be made both ways except out of conveyors and drop holes,
+ * so the candidates are the cells around, the teleporter twin, the elevator
+ * exits and a drop hole right above, kept when their own moves reach `pos`.
+ */
+function getPredecessors(
+  pos: number[],
+  maze: number[][] | number[][][],
+  viewType: "2D" | "3D",
+  options: SearchOptions = {}
+): number[][] {
+  const [x, y, z] = pos;
+  const layer =
+    viewType === "3D" ? (maze as number[][][])[z] : (maze as number[][]);
+  const onLayer = (cell: Position) => (viewType === "3D" ? [...cell, z] : cell);
+  const candidates: number[][] = layerNeighbors(
+    layer,
+    x,
+    y,
+    options.movement ?? "4-way",
+    viewType === "2D" ? options.topology : "square"
+  ).map(onLayer);
+  const twin = teleporterTwin(layer, x, y);
+  if (twin) candidates.push(onLayer(twin));
+  if (viewType === "3D") {
+    candidates.push(...(options.portals?.exits.get(posKey(pos)) ?? []));
+    const above = (maze as number[][][])[z + 1]?.[y][x];
+    if (above === CELL_TYPES.DROP_HOLE) candidates.push([x, y, z + 1]);
+  }
+  return candidates.filter((candidate) =>
+    getNeighbors(candidate, maze, viewType, options).some((next) =>
+      isSamePos(next, pos)
+    )
+  );
+}
+
+// Planar part of each heuristic, from the absolute x/y offsets between cell
+// centres
+const PLANAR_DISTANCES: Record<
+  Exclude<Heuristic, "auto" | "alt" | "hex">,
+  (dx: number, dy: number) => number
+> = {
+  manhattan: (dx, dy) => dx + dy,
+  euclidean: (dx, dy) => Math.hypot(dx, dy),
+  chebyshev: (dx, dy) => Math.max(dx, dy),
+  octile: (dx, dy) => Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy),
+  zero: () => 0,
+};
+
+/**
+ * Distance estimate between two cells for the chosen heuristic. "auto" picks
+ * the tightest one for the grid: hex distance on hex grids, Manhattan on
+ * 4-way square grids, octile once diagonals cost √2. Hex distance only means
+ * something on hex grids and acts like "auto" elsewhere. The other
+ * heuristics measure between cell centres, so on hex grids only Euclidean,
+ * Chebyshev and zero stay admissible. On a torus they measure the short way
+ * round each edge; the straight offsets would overestimate any route across
+ * an edge. Layers add |dz| elevator rides unless it is zero. None of them
+ * know about teleporters or elevators, which can jump anywhere; mazeDistance
+ * makes "auto" account for those. "alt" needs the maze itself, see mazeGraph.
+ */
+function gridDistance(options: SearchOptions, width: number, height: number) {
+  const topology = options.topology ?? "square";
+  const chosen = options.heuristic ?? "auto";
+  const heuristic =
+    chosen !== "auto" &&
+    chosen !== "alt" &&
+    (chosen !== "hex" || topology === "hex")
+      ? chosen
+      : topology === "hex"
+        ? "hex"
+        : (options.movement ?? "4-way") === "4-way"
+          ? "manhattan"
+          : "octile";
+  const planar =
+    heuristic === "hex"
+      ? hexDistance
+      : (a: number[], b: number[]) =>
+          PLANAR_DISTANCES[heuristic](
+            ...centerOffsets(a, b, topology, width, height)
+          );
+  const elevatorCost = options.elevatorCost ?? 1;
+  return (a: number[], b: number[]) => {
+    const dz =
+      a.length === 3 && heuristic !== "zero" ? Math.abs(a[2] - b[2]) : 0;
+    return planar(a, b) + dz * elevatorCost;
+  };
+}
+
+/**
+ * Landmarks for the ALT heuristic: every portal and teleporter, since
+ * shortcuts funnel routes through them, plus `extra` cells picked farthest-first so they sit
+ * on the edges of the maze. Only depends on the maze, its elevators and its
+ * topology, so the view can mark the same cells the search uses.
+ */
+export function selectLandmarks(
+  maze: number[][] | number[][][],
+  viewType: "2D" | "3D",
+  layout: Pick<SearchOptions, "portals" | "topology"> = {},
+  extra = 4
+): number[][] {
+  // Callers may hand over full search options; movement must not move the
+  // landmarks away from the cells the view marks
+  const graph = createSearchGraph(maze, viewType, {
+    portals: layout.portals,
+    topology: layout.topology,
+  });
+  const cells: number[][] = [];
+  const portalCells: number[][] = [];
+  const layers =
+    viewType === "3D" ? (maze as number[][][]) : [maze as number[][]];
+  layers.forEach((layer, z) =>
+    layer.forEach((row, y) =>
+      row.forEach((cell, x) => {
+        if (cell === CELL_TYPES.WALL) return;
+        const pos = viewType === "3D" ? [x, y, z] : [x, y];
+        cells.push(pos);
+        if (
+          cell === CELL_TYPES.PORTAL_UP ||
+          cell === CELL_TYPES.PORTAL_DOWN ||
+          isTeleporter(cell)
+        ) {
+          portalCells.push(pos);
+        }
+      })
+    )
+  );
+
+  const landmarks = [...portalCells];
+  let seeds = landmarks.length > 0 ? landmarks : cells.slice(0, 1);
+  for (let i = 0; i < extra && seeds.length > 0; i++) {
+    // Multi-source BFS: the last cell reached is the farthest from all seeds
+    const reached = new Set(seeds.map(graph.key));
+    let layer = seeds;
+    let farthest: number[] | null = null;
+    while (layer.length > 0) {
+      const next: number[][] = [];
+      for (const pos of layer) {
+        for (const { node: neighbor } of graph.neighbors(pos)) {
+          const key = graph.key(neighbor);
+          if (reached.has(key)) continue;
+          reached.add(key);
+          next.push(neighbor);
+          farthest = neighbor;
         }
       }
+      layer = next;
     }
+    if (!farthest) break;
+    landmarks.push(farthest);
+    seeds = landmarks;
   }
+  return landmarks;
+}
 
-  return neighbors;
+// Cheapest cost from `source` to every reachable node, or from every node to
+// `source` when `reverse` is set; the two differ on terrain because a move
+// costs what entering its cell costs, and on one-way cells
+function costsFrom(
+  graph: SearchGraph,
+  source: number[],
+  reverse: boolean
+): Map<string, number> {
+  const costs = new Map<string, number>([[graph.key(source), 0]]);
+  const openSet = new IndexedBinaryHeap<number[]>();
+  openSet.push(graph.key(source), source, [0]);
+  while (openSet.size > 0) {
+    const current = openSet.pop()!;
+    const cost = costs.get(graph.key(current))!;
+    const edges = reverse
+      ? graph.predecessors(current)
+      : graph.neighbors(current);
+    for (const { node: neighbor, cost: edgeCost } of edges) {
+      const key = graph.key(neighbor);
+      const next = cost + edgeCost;
+      const known = costs.get(key);
+      if (known === undefined || next < known) {
+        costs.set(key, next);
+        openSet.push(key, neighbor, [next]);
+      }
+    }
+  }
+  return costs;
 }
 
-function posKey(pos: number[]): string {
+/**
+ * ALT heuristic (A*, Landmarks, Triangle inequality). With exact costs to
+ * and from each landmark L, both d(L, b) - d(L, a) and d(a, L) - d(b, L) are
+ * lower bounds on d(a, b); the estimate is the largest of them. Admissible
+ * and consistent on any graph, portal detours and one-way moves included.
+ */
+export function landmarkDistance(graph: SearchGraph, landmarks: number[][]) {
+  const tables = landmarks.map((landmark) => ({
+    from: costsFrom(graph, landmark, false),
+    to: costsFrom(graph, landmark, true),
+  }));
+  return (a: number[], b: number[]) => {
+    const aKey = graph.key(a);
+    const bKey = graph.key(b);
+    let best = 0;
+    for (const { from, to } of tables) {
+      const fromA = from.get(aKey);
+      const fromB = from.get(bKey);
+      if (fromA !== undefined && fromB !== undefined) {
+        best = Math.max(best, fromB - fromA);
+      }
+      const toA = to.get(aKey);
+      const toB = to.get(bKey);
+      if (toA !== undefined && toB !== undefined) {
+        best = Math.max(best, toA - toB);
+      }
+    }
+    return best;
+  };
+}
+
+/**
+ * Heuristic of a maze graph other than ALT. "auto" stays admissible where the
+ * plain distance would overestimate: it is scaled down by terrain cheaper
+ * than a plain step, and since a route that jumps costs at least the way to
+ * the nearest jump cell, the cheapest jump and the way from the nearest jump
+ * cell on, it never exceeds that either. The named heuristics are left as
+ * they are, so their overestimates can still be compared.
+ */
+function mazeDistance(
+  maze: number[][] | number[][][],
+  viewType: "2D" | "3D",
+  options: SearchOptions
+) {
+  const layers =
+    viewType === "3D" ? (maze as number[][][]) : [maze as number[][]];
+  const distance = gridDistance(options, layers[0][0].length, layers[0].length);
+  if ((options.heuristic ?? "auto") !== "auto") return distance;
+
+  const cheapest = Math.min(
+    1,
+    ...Object.values(options.terrainCosts ?? DEFAULT_TERRAIN_COSTS)
+  );
+  const jumpCells = layers.flatMap((layer, z) =>
+    teleporterPairs(layer).flatMap(({ a, b }) =>
+      viewType === "3D"
+        ? [
+            [...a, z],
+            [...b, z],
+          ]
+        : [a, b]
+    )
+  );
+  // A teleporter jump costs a plain step, an elevator ride at least one floor
+  let jumpCost = jumpCells.length > 0 ? 1 : Infinity;
+  if (viewType === "3D") {
+    for (const { from, to } of options.portals?.links ?? []) {
+      jumpCells.push(from, to);
+      jumpCost = Math.min(jumpCost, options.elevatorCost ?? 1);
+    }
+  }
+
+  return (a: number[], b: number[]) => {
+    let toJump = Infinity;
+    let fromJump = Infinity;
+    for (const cell of jumpCells) {
+      toJump = Math.min(toJump, distance(a, cell));
+      fromJump = Math.min(fromJump, distance(cell, b));
+    }
+    return cheapest * Math.min(distance(a, b), toJump + jumpCost + fromJump);
+  };
+}
+
+// Graph over the open cells of a maze. Heuristic tables are only built on
+// the first estimate, so searches that never ask for one don't pay for ALT.
+function mazeGraph(
+  maze: number[][] | number[][][],
+  viewType: "2D" | "3D",
+  options: SearchOptions
+): SearchGraph {
+  let estimate: ((a: number[], b: number[]) => number) | undefined;
+  const graph: SearchGraph = {
+    neighbors: (node) =>
+      getNeighbors(node, maze, viewType, options).map((next) => ({
+        node: next,
+        cost: stepCost(maze, node, next, options),
+      })),
+    predecessors: (node) =>
+      getPredecessors(node, maze, viewType, options).map((previous) => ({
+        node: previous,
+        cost: stepCost(maze, previous, node, options),
+      })),
+    heuristic: (a, b) => {
+      estimate ??=
+        options.heuristic === "alt"
+          ? landmarkDistance(graph, selectLandmarks(maze, viewType, options))
+          : mazeDistance(maze, viewType, options);
+      return estimate(a, b);
+    },
+    key: posKey,
+  };
+  if (
+    viewType === "2D" &&
+    (options.topology ?? "square") === "square" &&
+    (options.movement ?? "4-way") === "4-way"
+  ) {
+    graph.grid = maze as number[][];
+  }
+  return graph;
+}
+
+/** Search graph of a single-layer maze, in [x, y] cells */
+export function createGridGraph(
+  maze: number[][],
+  options: SearchOptions = {}
+): SearchGraph {
+  return mazeGraph(maze, "2D", options);
+}
+
+/**
+ * Search graph of a stack of square layers, in [x, y, z] cells, joined by
+ * the elevators in options.portals and by drop holes. Topology is ignored.
+ */
+export function createLayeredGraph(
+  maze3D: number[][][],
+  options: SearchOptions = {}
+): SearchGraph {
+  return mazeGraph(maze3D, "3D", { ...options, topology: "square" });
+}
+
+// The graph of a 2D or 3D maze, whichever viewType says it is
+export function createSearchGraph(
+  maze: number[][] | number[][][],
+  viewType: "2D" | "3D",
+  options: SearchOptions = {}
+): SearchGraph {
+  return viewType === "2D"
+    ? createGridGraph(maze as number[][], options)
+    : createLayeredGraph(maze as number[][][], options);
+}
+
+// An edge of an arbitrary graph between numbered nodes; cost defaults to 1
+export interface GraphEdge {
+  from: number;
+  to: number;
+  cost?: number;
+}
+
+/**
+ * Search graph over numbered nodes, in [id] tuples, from an edge list.
+ * Edges go both ways unless `directed` is set. Without a heuristic the
+ * informed searches fall back to h = 0, which keeps them exact.
+ */
+export function createAdjacencyGraph(
+  edges: GraphEdge[],
+  {
+    directed = false,
+    heuristic = () => 0,
+  }: {
+    directed?: boolean;
+    heuristic?: (a: number, b: number) => number;
+  } = {}
+): SearchGraph {
+  const out = new Map<number, SearchEdge[]>();
+  const into = new Map<number, SearchEdge[]>();
+  const link = (from: number, to: number, cost: number) => {
+    out.set(from, [...(out.get(from) ?? []), { node: [to], cost }]);
+    into.set(to, [...(into.get(to) ?? []), { node: [from], cost }]);
+  };
+  for (const { from, to, cost = 1 } of edges) {
+    link(from, to, cost);
+    if (!directed) link(to, from, cost);
+  }
+  return {
+    neighbors: ([id]) => out.get(id) ?? [],
+    predecessors: ([id]) => into.get(id) ?? [],
+    heuristic: ([a], [b]) => heuristic(a, b),
+    key: posKey,
+  };
+}
+
+export function posKey(pos: number[]): string {
   return pos.join(",");
 }
 
-function isSamePos(a: number[], b: number[]): boolean {
+export function isSamePos(a: number[], b: number[]): boolean {
   if (a.length !== b.length) return false;
   return a.every((v, i) => v === b[i]);
 }
 
-const delay = (ms: number) => new Promise((res) => setTimeout(res, ms));
-
 function reconstructPath(
+  graph: SearchGraph,
   parentMap: Map<string, number[]>,
   start: number[],
   goal: number[]
 ): number[][] {
   const path: number[][] = [];
+  const startKey = graph.key(start);
   let current = goal;
-  while (!isSamePos(current, start)) {
+  while (graph.key(current) !== startKey) {
     path.unshift(current);
-    const parent = parentMap.get(posKey(current));
+    const parent = parentMap.get(graph.key(current));
     if (!parent) break;
     current = parent;
   }
@@ -414,421 +2036,916 @@ function reconstructPath(
   return path;
 }
 
-// Helper to call paintNode for 2D or 3D
-function callPaintNode(
-  viewType: "2D" | "3D",
-  paintNode: PaintNode,
+function cellAt(maze: number[][] | number[][][], pos: number[]): number {
+  const [x, y, z] = pos;
+  return pos.length === 3
+    ? (maze as number[][][])[z][y][x]
+    : (maze as number[][])[y][x];
+}
+
+// Cost of stepping onto `pos`; anything that isn't terrain costs 1
+export function moveCost(
+  maze: number[][] | number[][][],
   pos: number[],
-  color: number
-) {
-  if (viewType === "2D") {
-    (paintNode as PaintFunction)(pos[0], pos[1], color);
-  } else {
-    (paintNode as PaintFunction3D)(pos[0], pos[1], pos[2], color);
+  costs: TerrainCosts = DEFAULT_TERRAIN_COSTS
+): number {
+  switch (cellAt(maze, pos)) {
+    case CELL_TYPES.MUD:
+      return costs.mud;
+    case CELL_TYPES.WATER:
+      return costs.water;
+    case CELL_TYPES.SAND:
+      return costs.sand;
+    default:
+      return 1;
   }
 }
 
-// Auxiliary function to paint the path and threads
-async function paintPathAndThreads(
-  path: number[][],
-  start: number[],
-  goal: number[],
+// Cost of one move: the terrain cost of the cell entered, times √2 when the
+// move is diagonal within a square layer or across a corner of a torus; the
+// six hex moves all count as straight. A teleporter jump costs a plain step, and
+// an elevator ride or a fall through a drop hole costs elevatorCost per floor
+// instead.
+export function stepCost(
   maze: number[][] | number[][][],
-  viewType: "2D" | "3D",
-  paintNode: PaintNode,
-  paintThread: PaintThreadFunction | undefined,
-  delayMs: number
-) {
-  for (let i = 0; i < path.length; i++) {
-    const p = path[i];
-
-    // Paint the node
-    if (!isSamePos(p, start) && !isSamePos(p, goal)) {
-      callPaintNode(viewType, paintNode, p, COLORS.PATH);
-      await delay(delayMs / 2);
-    }
-
-    // Check if this is a portal transition (z-level change between consecutive path points)
-    if (viewType === "3D" && i < path.length - 1 && paintThread) {
-      const currentPos = p as [number, number, number];
-      const nextPos = path[i + 1] as [number, number, number];
-
-      // If z-coordinate changes, this is a portal transition
-      if (currentPos[2] !== nextPos[2]) {
-        const maze3D = maze as number[][][];
-        const currentCell = maze3D[currentPos[2]][currentPos[1]][currentPos[0]];
-        const nextCell = maze3D[nextPos[2]][nextPos[1]][nextPos[0]];
-
-        // Paint the thread if transitioning through portals
-        if (
-          (currentCell === CELL_TYPES.PORTAL_UP &&
-            nextCell === CELL_TYPES.PORTAL_DOWN) ||
-          (currentCell === CELL_TYPES.PORTAL_DOWN &&
-            nextCell === CELL_TYPES.PORTAL_UP)
-        ) {
-          // Apply layer spacing to z-coordinate before calling paintThread
-          const layerSpacing = 10; // Should match the value from Maze3DView
-          const adjustedCurrentPos: [number, number, number] = [
-            currentPos[0],
-            currentPos[1],
-            currentPos[2] * layerSpacing + 1, // +1 to match spherePositions.y in Maze3DView
-          ];
-          const adjustedNextPos: [number, number, number] = [
-            nextPos[0],
-            nextPos[1],
-            nextPos[2] * layerSpacing + 1,
-          ];
-          paintThread(adjustedCurrentPos, adjustedNextPos, COLORS.PATH);
-        }
-      }
-    }
+  from: number[],
+  to: number[],
+  options: SearchOptions = {}
+): number {
+  if (from.length === 3 && from[2] !== to[2]) {
+    return (options.elevatorCost ?? 1) * Math.abs(from[2] - to[2]);
   }
+  const layer =
+    from.length === 3 ? (maze as number[][][])[from[2]] : (maze as number[][]);
+  // Hex neighbours are never a whole cell apart on both axes
+  const [dx, dy] = centerOffsets(
+    from,
+    to,
+    options.topology ?? "square",
+    layer[0].length,
+    layer.length
+  );
+  const diagonal = dx === 1 && dy === 1;
+  return moveCost(maze, to, options.terrainCosts) * (diagonal ? Math.SQRT2 : 1);
+}
+
+// Sum of the edge costs along a path; a step the graph has no edge for
+// makes it Infinity
+export function pathCost(graph: SearchGraph, path: number[][]): number {
+  return path.slice(1).reduce((sum, node, i) => {
+    const key = graph.key(node);
+    const edge = graph
+      .neighbors(path[i])
+      .find((candidate) => graph.key(candidate.node) === key);
+    return sum + (edge?.cost ?? Infinity);
+  }, 0);
 }
 
 /** BFS */
-export async function breadthFirstSearch(
-  maze: number[][] | number[][][],
+export function* breadthFirstSearch(
+  graph: SearchGraph,
   start: number[],
-  goal: number[],
-  paintNode: PaintNode,
-  delayMs: number = 50,
-  viewType: "2D" | "3D",
-  paintThread?: PaintThreadFunction,
-  abortSignal?: AbortSignal
-): Promise<SearchResult> {
+  goal: number[]
+): SearchGenerator {
+  const goalKey = graph.key(goal);
   const queue: number[][] = [start];
   const visited = new Set<string>();
   const parentMap = new Map<string, number[]>();
-  visited.add(posKey(start));
+  visited.add(graph.key(start));
   let visitedCount = 0;
+  let peakFrontier = 1;
   while (queue.length > 0) {
-    if (abortSignal?.aborted) throw new DOMException("Aborted", "AbortError");
     const current = queue.shift()!;
     visitedCount++;
-    if (!isSamePos(current, start) && !isSamePos(current, goal)) {
-      callPaintNode(viewType, paintNode, current, COLORS.VISITED);
-      await delay(delayMs);
-    }
-    if (isSamePos(current, goal)) {
-      const path = reconstructPath(parentMap, start, goal);
-      await paintPathAndThreads(
-        path,
-        start,
-        goal,
-        maze,
-        viewType,
-        paintNode,
-        paintThread,
-        delayMs
-      );
-      return { path, visitedCount, success: true };
-    }
-    const neighbors =
-      viewType === "2D"
-        ? getNeighbors2D(current as [number, number], maze as number[][])
-        : getNeighbors3D(
-            current as [number, number, number],
-            maze as number[][][]
-          );
-    for (const neighbor of neighbors) {
-      const key = posKey(neighbor);
+    yield { type: "expand", pos: current };
+    if (graph.key(current) === goalKey) {
+      const path = reconstructPath(graph, parentMap, start, goal);
+      yield { type: "path-found", path };
+      return { path, visitedCount, peakFrontier, success: true };
+    }
+    for (const { node: neighbor } of graph.neighbors(current)) {
+      const key = graph.key(neighbor);
       if (!visited.has(key)) {
         visited.add(key);
         parentMap.set(key, current);
         queue.push(neighbor);
-        if (!isSamePos(neighbor, goal))
-          callPaintNode(viewType, paintNode, neighbor, COLORS.FRONTIER);
+        peakFrontier = Math.max(peakFrontier, queue.length);
+        yield { type: "enqueue", pos: neighbor, parent: current };
       }
     }
   }
-  return { path: [], visitedCount, success: false };
+  yield { type: "exhausted" };
+  return { path: [], visitedCount, peakFrontier, success: false };
 }
 
 /** DFS */
-export async function depthFirstSearch(
-  maze: number[][] | number[][][],
+export function* depthFirstSearch(
+  graph: SearchGraph,
   start: number[],
-  goal: number[],
-  paintNode: PaintNode,
-  delayMs: number = 50,
-  viewType: "2D" | "3D",
-  paintThread?: PaintThreadFunction,
-  abortSignal?: AbortSignal
-): Promise<SearchResult> {
+  goal: number[]
+): SearchGenerator {
+  const goalKey = graph.key(goal);
   const stack: number[][] = [start];
   const visited = new Set<string>();
   const parentMap = new Map<string, number[]>();
-  visited.add(posKey(start));
+  visited.add(graph.key(start));
   let visitedCount = 0;
+  let peakFrontier = 1;
   while (stack.length > 0) {
-    if (abortSignal?.aborted) throw new DOMException("Aborted", "AbortError");
     const current = stack.pop()!;
     visitedCount++;
-    if (!isSamePos(current, start) && !isSamePos(current, goal)) {
-      callPaintNode(viewType, paintNode, current, COLORS.VISITED);
-      await delay(delayMs);
-    }
-    if (isSamePos(current, goal)) {
-      const path = reconstructPath(parentMap, start, goal);
-      await paintPathAndThreads(
-        path,
-        start,
-        goal,
-        maze,
-        viewType,
-        paintNode,
-        paintThread,
-        delayMs
-      );
-      return { path, visitedCount, success: true };
-    }
-    const neighbors =
-      viewType === "2D"
-        ? getNeighbors2D(current as [number, number], maze as number[][])
-        : getNeighbors3D(
-            current as [number, number, number],
-            maze as number[][][]
-          );
-    for (const neighbor of neighbors) {
-      const key = posKey(neighbor);
+    yield { type: "expand", pos: current };
+    if (graph.key(current) === goalKey) {
+      const path = reconstructPath(graph, parentMap, start, goal);
+      yield { type: "path-found", path };
+      return { path, visitedCount, peakFrontier, success: true };
+    }
+    for (const { node: neighbor } of graph.neighbors(current)) {
+      const key = graph.key(neighbor);
       if (!visited.has(key)) {
         visited.add(key);
         parentMap.set(key, current);
         stack.push(neighbor);
-        if (!isSamePos(neighbor, goal))
-          callPaintNode(viewType, paintNode, neighbor, COLORS.FRONTIER);
+        peakFrontier = Math.max(peakFrontier, stack.length);
+        yield { type: "enqueue", pos: neighbor, parent: current };
       }
     }
   }
-  return { path: [], visitedCount, success: false };
+  yield { type: "exhausted" };
+  return { path: [], visitedCount, peakFrontier, success: false };
 }
 
-/** A* Search */
-export async function aStarSearch(
-  maze: number[][] | number[][][],
+/**
+ * A* Search. A weight above 1 inflates h (weighted A*), trading the optimal
+ * path for fewer expansions: the result costs at most weight × the optimum
+ * when h is admissible.
+ */
+export function* aStarSearch(
+  graph: SearchGraph,
   start: number[],
   goal: number[],
-  paintNode: PaintNode,
-  delayMs: number = 50,
-  viewType: "2D" | "3D",
-  paintThread?: PaintThreadFunction,
-  abortSignal?: AbortSignal
-): Promise<SearchResult> {
-  const heuristic = (pos: number[]) =>
-    Math.abs(pos[0] - goal[0]) +
-    Math.abs(pos[1] - goal[1]) +
-    Math.abs(pos[2] - goal[2]);
-
-  interface Node {
-    pos: number[];
-    g: number;
-    h: number;
-    f: number;
-  }
-
-  const openSet: Node[] = [
-    { pos: start, g: 0, h: heuristic(start), f: heuristic(start) },
-  ];
+  options: SearchOptions = {}
+): SearchGenerator {
+  const goalKey = graph.key(goal);
+  const heuristic = (pos: number[]) => graph.heuristic(pos, goal);
+
+  const weight = options.weight ?? 1;
+
+  // Ties on f go to the node closer to the goal, then to the heap's order
+  const openSet = new IndexedBinaryHeap<number[]>(options.tieBreaking);
+  const startH = heuristic(start);
+  openSet.push(graph.key(start), start, [weight * startH, startH]);
   const visited = new Set<string>();
   const parentMap = new Map<string, number[]>();
   const gScore = new Map<string, number>();
-  gScore.set(posKey(start), 0);
+  gScore.set(graph.key(start), 0);
   let visitedCount = 0;
+  let peakFrontier = 1;
 
-  while (openSet.length > 0) {
-    if (abortSignal?.aborted) throw new DOMException("Aborted", "AbortError");
-    openSet.sort((a, b) => a.f - b.f);
-    const current = openSet.shift()!;
-    const key = posKey(current.pos);
-    if (visited.has(key)) continue;
+  while (openSet.size > 0) {
+    const current = openSet.pop()!;
+    const key = graph.key(current);
     visited.add(key);
     visitedCount++;
+    yield { type: "expand", pos: current };
 
-    if (!isSamePos(current.pos, start) && !isSamePos(current.pos, goal)) {
-      callPaintNode(viewType, paintNode, current.pos, COLORS.VISITED);
-      await delay(delayMs);
-    }
-
-    if (isSamePos(current.pos, goal)) {
-      const path = reconstructPath(parentMap, start, goal);
-      await paintPathAndThreads(
-        path,
-        start,
-        goal,
-        maze,
-        viewType,
-        paintNode,
-        paintThread,
-        delayMs
-      );
-      return { path, visitedCount, success: true };
+    if (key === goalKey) {
+      const path = reconstructPath(graph, parentMap, start, goal);
+      yield { type: "path-found", path };
+      return { path, visitedCount, peakFrontier, success: true };
     }
 
-    const neighbors =
-      viewType === "2D"
-        ? getNeighbors2D(current.pos as [number, number], maze as number[][])
-        : getNeighbors3D(
-            current.pos as [number, number, number],
-            maze as number[][][]
-          );
-    for (const neighbor of neighbors) {
-      const nKey = posKey(neighbor);
+    const g = gScore.get(key)!;
+    for (const { node: neighbor, cost: edgeCost } of graph.neighbors(current)) {
+      const nKey = graph.key(neighbor);
       if (visited.has(nKey)) continue;
-      const tentativeG = current.g + 1;
-      if (tentativeG < (gScore.get(nKey) ?? Infinity)) {
-        parentMap.set(nKey, current.pos);
+      const tentativeG = g + edgeCost;
+      const knownG = gScore.get(nKey);
+      if (knownG === undefined || tentativeG < knownG) {
+        parentMap.set(nKey, current);
         gScore.set(nKey, tentativeG);
         const h = heuristic(neighbor);
-        openSet.push({ pos: neighbor, g: tentativeG, h, f: tentativeG + h });
-        if (!isSamePos(neighbor, goal))
-          callPaintNode(viewType, paintNode, neighbor, COLORS.FRONTIER);
+        openSet.push(nKey, neighbor, [tentativeG + weight * h, h]);
+        peakFrontier = Math.max(peakFrontier, openSet.size);
+        yield knownG === undefined
+          ? { type: "enqueue", pos: neighbor, parent: current }
+          : { type: "relax", pos: neighbor, parent: current, cost: tentativeG };
       }
     }
   }
 
-  return { path: [], visitedCount, success: false };
+  yield { type: "exhausted" };
+  return { path: [], visitedCount, peakFrontier, success: false };
 }
 
 /** Dijkstra's Algorithm */
-export async function dijkstraSearch(
-  maze: number[][] | number[][][],
+export function* dijkstraSearch(
+  graph: SearchGraph,
   start: number[],
   goal: number[],
-  paintNode: PaintNode,
-  delayMs: number = 50,
-  viewType: "2D" | "3D",
-  paintThread?: PaintThreadFunction,
-  abortSignal?: AbortSignal
-): Promise<SearchResult> {
-  interface Node {
-    pos: number[];
-    cost: number;
-  }
-
-  const openSet: Node[] = [{ pos: start, cost: 0 }];
+  options: SearchOptions = {}
+): SearchGenerator {
+  const goalKey = graph.key(goal);
+  const openSet = new IndexedBinaryHeap<number[]>(options.tieBreaking);
+  openSet.push(graph.key(start), start, [0]);
   const visited = new Set<string>();
   const parentMap = new Map<string, number[]>();
   const costMap = new Map<string, number>();
-  costMap.set(posKey(start), 0);
+  costMap.set(graph.key(start), 0);
   let visitedCount = 0;
+  let peakFrontier = 1;
 
-  while (openSet.length > 0) {
-    if (abortSignal?.aborted) throw new DOMException("Aborted", "AbortError");
-    openSet.sort((a, b) => a.cost - b.cost);
-    const current = openSet.shift()!;
-    const key = posKey(current.pos);
-    if (visited.has(key)) continue;
+  while (openSet.size > 0) {
+    const current = openSet.pop()!;
+    const key = graph.key(current);
     visited.add(key);
     visitedCount++;
+    yield { type: "expand", pos: current };
 
-    if (!isSamePos(current.pos, start) && !isSamePos(current.pos, goal)) {
-      callPaintNode(viewType, paintNode, current.pos, COLORS.VISITED);
-      await delay(delayMs);
-    }
-
-    if (isSamePos(current.pos, goal)) {
-      const path = reconstructPath(parentMap, start, goal);
-      await paintPathAndThreads(
-        path,
-        start,
-        goal,
-        maze,
-        viewType,
-        paintNode,
-        paintThread,
-        delayMs
-      );
-      return { path, visitedCount, success: true };
+    if (key === goalKey) {
+      const path = reconstructPath(graph, parentMap, start, goal);
+      yield { type: "path-found", path };
+      return { path, visitedCount, peakFrontier, success: true };
     }
 
-    const neighbors =
-      viewType === "2D"
-        ? getNeighbors2D(current.pos as [number, number], maze as number[][])
-        : getNeighbors3D(
-            current.pos as [number, number, number],
-            maze as number[][][]
-          );
-    for (const neighbor of neighbors) {
-      const nKey = posKey(neighbor);
+    const cost = costMap.get(key)!;
+    for (const { node: neighbor, cost: edgeCost } of graph.neighbors(current)) {
+      const nKey = graph.key(neighbor);
       if (visited.has(nKey)) continue;
-      const newCost = current.cost + 1;
-      if (newCost < (costMap.get(nKey) ?? Infinity)) {
-        parentMap.set(nKey, current.pos);
+      const newCost = cost + edgeCost;
+      const knownCost = costMap.get(nKey);
+      if (knownCost === undefined || newCost < knownCost) {
+        parentMap.set(nKey, current);
         costMap.set(nKey, newCost);
-        openSet.push({ pos: neighbor, cost: newCost });
-        if (!isSamePos(neighbor, goal))
-          callPaintNode(viewType, paintNode, neighbor, COLORS.FRONTIER);
+        openSet.push(nKey, neighbor, [newCost]);
+        peakFrontier = Math.max(peakFrontier, openSet.size);
+        yield knownCost === undefined
+          ? { type: "enqueue", pos: neighbor, parent: current }
+          : { type: "relax", pos: neighbor, parent: current, cost: newCost };
       }
     }
   }
-  return { path: [], visitedCount, success: false };
+  yield { type: "exhausted" };
+  return { path: [], visitedCount, peakFrontier, success: false };
 }
 
 /** Greedy Best-First Search */
-export async function greedyBestFirstSearch(
-  maze: number[][] | number[][][],
+export function* greedyBestFirstSearch(
+  graph: SearchGraph,
   start: number[],
   goal: number[],
-  paintNode: PaintNode,
-  delayMs: number = 50,
-  viewType: "2D" | "3D",
-  paintThread?: PaintThreadFunction,
-  abortSignal?: AbortSignal
-): Promise<SearchResult> {
-  const heuristic = (pos: number[]) =>
-    pos.reduce((sum, v, i) => sum + Math.abs(v - goal[i]), 0);
-
-  interface Node {
-    pos: number[];
-    h: number;
-  }
-
-  const openSet: Node[] = [{ pos: start, h: heuristic(start) }];
+  options: SearchOptions = {}
+): SearchGenerator {
+  const goalKey = graph.key(goal);
+  const heuristic = (pos: number[]) => graph.heuristic(pos, goal);
+
+  // Ties on h go to the cheaper route so far
+  const openSet = new IndexedBinaryHeap<number[]>(options.tieBreaking);
+  openSet.push(graph.key(start), start, [heuristic(start), 0]);
   const visited = new Set<string>();
   const parentMap = new Map<string, number[]>();
-  visited.add(posKey(start));
+  const costMap = new Map<string, number>([[graph.key(start), 0]]);
+  visited.add(graph.key(start));
   let visitedCount = 0;
-  while (openSet.length > 0) {
-    if (abortSignal?.aborted) throw new DOMException("Aborted", "AbortError");
-    openSet.sort((a, b) => a.h - b.h);
-    const current = openSet.shift()!;
+  let peakFrontier = 1;
+  while (openSet.size > 0) {
+    const current = openSet.pop()!;
+    const cost = costMap.get(graph.key(current))!;
     visitedCount++;
+    yield { type: "expand", pos: current };
 
-    if (!isSamePos(current.pos, start) && !isSamePos(current.pos, goal)) {
-      callPaintNode(viewType, paintNode, current.pos, COLORS.VISITED);
-      await delay(delayMs);
-    }
-    if (isSamePos(current.pos, goal)) {
-      const path = reconstructPath(parentMap, start, goal);
-      await paintPathAndThreads(
-        path,
-        start,
-        goal,
-        maze,
-        viewType,
-        paintNode,
-        paintThread,
-        delayMs
-      );
-      return { path, visitedCount, success: true };
-    }
-    const neighbors =
-      viewType === "2D"
-        ? getNeighbors2D(current.pos as [number, number], maze as number[][])
-        : getNeighbors3D(
-            current.pos as [number, number, number],
-            maze as number[][][]
-          );
-    for (const neighbor of neighbors) {
-      const key = posKey(neighbor);
+    if (graph.key(current) === goalKey) {
+      const path = reconstructPath(graph, parentMap, start, goal);
+      yield { type: "path-found", path };
+      return { path, visitedCount, peakFrontier, success: true };
+    }
+    for (const { node: neighbor, cost: edgeCost } of graph.neighbors(current)) {
+      const key = graph.key(neighbor);
       if (!visited.has(key)) {
         visited.add(key);
-        parentMap.set(key, current.pos);
-        openSet.push({ pos: neighbor, h: heuristic(neighbor) });
-        if (!isSamePos(neighbor, goal))
-          callPaintNode(viewType, paintNode, neighbor, COLORS.FRONTIER);
+        parentMap.set(key, current);
+        const newCost = cost + edgeCost;
+        costMap.set(key, newCost);
+        openSet.push(key, neighbor, [heuristic(neighbor), newCost]);
+        peakFrontier = Math.max(peakFrontier, openSet.size);
+        yield { type: "enqueue", pos: neighbor, parent: current };
       }
     }
   }
-  return { path: [], visitedCount, success: false };
+  yield { type: "exhausted" };
+  return { path: [], visitedCount, peakFrontier, success: false };
 }
+
+const otherSide = (side: SearchSide): SearchSide =>
+  side === "forward" ? "backward" : "forward";
+
+// Moves a bidirectional search can expand from `pos`: the backward side
+// walks edges in reverse, so it only steps to nodes with a move onto `pos`
+// and pays what that forward move costs
+function sideNeighbors(
+  graph: SearchGraph,
+  side: SearchSide,
+  pos: number[]
+): SearchEdge[] {
+  return side === "forward" ? graph.neighbors(pos) : graph.predecessors(pos);
+}
+
+// Joins the start->meet and meet->goal halves of a bidirectional search. The
+// backward parents point one move closer to the goal, so read from the goal
+// and reversed, that half follows the moves the way they can be made.
+function joinPaths(
+  graph: SearchGraph,
+  parents: Record<SearchSide, Map<string, number[]>>,
+  start: number[],
+  goal: number[],
+  meet: number[]
+): number[][] {
+  const forwardHalf = reconstructPath(graph, parents.forward, start, meet);
+  const backwardHalf = reconstructPath(
+    graph,
+    parents.backward,
+    goal,
+    meet
+  ).reverse();
+  return [...forwardHalf, ...backwardHalf.slice(1)];
+}
+
+/**
+ * Bidirectional BFS. Grows one BFS layer at a time from whichever side has
+ * the smaller frontier, and stops as soon as the two searches touch.
+ */
+export function* bidirectionalBreadthFirstSearch(
+  graph: SearchGraph,
+  start: number[],
+  goal: number[]
+): SearchGenerator {
+  const frontiers: Record<SearchSide, number[][]> = {
+    forward: [start],
+    backward: [goal],
+  };
+  const visited: Record<SearchSide, Set<string>> = {
+    forward: new Set([graph.key(start)]),
+    backward: new Set([graph.key(goal)]),
+  };
+  const parents: Record<SearchSide, Map<string, number[]>> = {
+    forward: new Map(),
+    backward: new Map(),
+  };
+  let visitedCount = 0;
+  let peakFrontier = 2;
+
+  if (graph.key(start) === graph.key(goal)) {
+    yield { type: "expand", pos: start };
+    yield { type: "path-found", path: [start] };
+    return {
+      path: [start],
+      visitedCount: 1,
+      peakFrontier,
+      success: true,
+    };
+  }
+
+  while (frontiers.forward.length > 0 && frontiers.backward.length > 0) {
+    const side: SearchSide =
+      frontiers.forward.length <= frontiers.backward.length
+        ? "forward"
+        : "backward";
+    const other = otherSide(side);
+    const nextLayer: number[][] = [];
+    let processed = 0;
+
+    for (const current of frontiers[side]) {
+      processed++;
+      visitedCount++;
+      yield { type: "expand", pos: current, side };
+      for (const { node: neighbor } of sideNeighbors(graph, side, current)) {
+        const key = graph.key(neighbor);
+        if (visited[side].has(key)) continue;
+        visited[side].add(key);
+        parents[side].set(key, current);
+
+        if (visited[other].has(key)) {
+          yield { type: "meet", pos: neighbor };
+          const path = joinPaths(graph, parents, start, goal, neighbor);
+          yield { type: "path-found", path, meet: neighbor };
+          return { path, visitedCount, peakFrontier, success: true };
+        }
+
+        nextLayer.push(neighbor);
+        peakFrontier = Math.max(
+          peakFrontier,
+          frontiers[side].length -
+            processed +
+            nextLayer.length +
+            frontiers[other].length
+        );
+        yield { type: "enqueue", pos: neighbor, parent: current, side };
+      }
+    }
+    frontiers[side] = nextLayer;
+  }
+
+  yield { type: "exhausted" };
+  return { path: [], visitedCount, peakFrontier, success: false };
+}
+
+/**
+ * Bidirectional A*. Each side runs A* towards the other endpoint, always
+ * expanding the smaller open set. The best meeting cost found so far is kept,
+ * and the search stops once neither side can improve on it (Pohl's criterion).
+ */
+export function* bidirectionalAStarSearch(
+  graph: SearchGraph,
+  start: number[],
+  goal: number[],
+  options: SearchOptions = {}
+): SearchGenerator {
+  // The backward side estimates the cost from start to pos, which only
+  // differs from pos to start for directed estimates such as ALT on terrain
+  const heuristic = (pos: number[], side: SearchSide) =>
+    side === "forward"
+      ? graph.heuristic(pos, goal)
+      : graph.heuristic(start, pos);
+
+  const openSets: Record<SearchSide, IndexedBinaryHeap<number[]>> = {
+    forward: new IndexedBinaryHeap(options.tieBreaking),
+    backward: new IndexedBinaryHeap(options.tieBreaking),
+  };
+  const gScores: Record<SearchSide, Map<string, number>> = {
+    forward: new Map([[graph.key(start), 0]]),
+    backward: new Map([[graph.key(goal), 0]]),
+  };
+  const closed: Record<SearchSide, Set<string>> = {
+    forward: new Set(),
+    backward: new Set(),
+  };
+  const parents: Record<SearchSide, Map<string, number[]>> = {
+    forward: new Map(),
+    backward: new Map(),
+  };
+  openSets.forward.push(graph.key(start), start, [heuristic(start, "forward")]);
+  openSets.backward.push(graph.key(goal), goal, [heuristic(goal, "backward")]);
+
+  let bestCost = graph.key(start) === graph.key(goal) ? 0 : Infinity;
+  let meet: number[] | null =
+    graph.key(start) === graph.key(goal) ? start : null;
+  let visitedCount = 0;
+  let peakFrontier = 2;
+
+  while (openSets.forward.size > 0 && openSets.backward.size > 0) {
+    const lowerBound = Math.max(
+      openSets.forward.peekPriority()![0],
+      openSets.backward.peekPriority()![0]
+    );
+    if (bestCost <= lowerBound) break;
+
+    const side: SearchSide =
+      openSets.forward.size <= openSets.backward.size ? "forward" : "backward";
+    const other = otherSide(side);
+    const current = openSets[side].pop()!;
+    const key = graph.key(current);
+    closed[side].add(key);
+    visitedCount++;
+    yield { type: "expand", pos: current, side };
+
+    const g = gScores[side].get(key)!;
+    for (const { node: neighbor, cost: edgeCost } of sideNeighbors(
+      graph,
+      side,
+      current
+    )) {
+      const nKey = graph.key(neighbor);
+      if (closed[side].has(nKey)) continue;
+      const tentativeG = g + edgeCost;
+      const knownG = gScores[side].get(nKey);
+      if (knownG === undefined || tentativeG < knownG) {
+        parents[side].set(nKey, current);
+        gScores[side].set(nKey, tentativeG);
+        const h = heuristic(neighbor, side);
+        openSets[side].push(nKey, neighbor, [tentativeG + h, h]);
+        peakFrontier = Math.max(
+          peakFrontier,
+          openSets.forward.size + openSets.backward.size
+        );
+        yield knownG === undefined
+          ? { type: "enqueue", pos: neighbor, parent: current, side }
+          : {
+              type: "relax",
+              pos: neighbor,
+              parent: current,
+              cost: tentativeG,
+              side,
+            };
+
+        const otherG = gScores[other].get(nKey);
+        if (otherG !== undefined && tentativeG + otherG < bestCost) {
+          bestCost = tentativeG + otherG;
+          meet = neighbor;
+        }
+      }
+    }
+  }
+
+  if (meet) {
+    yield { type: "meet", pos: meet };
+    const path = joinPaths(graph, parents, start, goal, meet);
+    yield { type: "path-found", path, meet };
+    return { path, visitedCount, peakFrontier, success: true };
+  }
+
+  yield { type: "exhausted" };
+  return { path: [], visitedCount, peakFrontier, success: false };
+}
+
+/**
+ * Iterative Deepening DFS. Runs a depth-limited DFS with limits 0, 1, 2, ...
+ * restarting from scratch each time, so memory stays proportional to the
+ * current depth while earlier levels are expanded over and over. Within one
+ * iteration a node is only revisited if reached at a smaller depth, which
+ * keeps a single iteration linear on mazes with loops. Gives up after
+ * options.expansionLimit expansions, like IDA*.
+ */
+export function* iterativeDeepeningSearch(
+  graph: SearchGraph,
+  start: number[],
+  goal: number[],
+  options: SearchOptions = {}
+): SearchGenerator {
+  const limit = options.expansionLimit ?? DEFAULT_EXPANSION_LIMIT;
+  const goalKey = graph.key(goal);
+  const everExpanded = new Set<string>();
+  let visitedCount = 0;
+  let peakFrontier = 1;
+  let reExpansions = 0;
+
+  for (let bound = 0; ; bound++) {
+    yield { type: "iteration", bound, reExpansions };
+    const bestDepth = new Map<string, number>([[graph.key(start), 0]]);
+    const parentMap = new Map<string, number[]>();
+    const stack: { pos: number[]; depth: number }[] = [
+      { pos: start, depth: 0 },
+    ];
+    let cutOff = false;
+
+    while (stack.length > 0) {
+      const { pos: current, depth } = stack.pop()!;
+      const key = graph.key(current);
+      // Skip entries superseded by a shallower route to the same node
+      if (bestDepth.get(key)! < depth) continue;
+      if (visitedCount >= limit) {
+        yield { type: "exhausted" };
+        return {
+          path: [],
+          visitedCount,
+          peakFrontier,
+          success: false,
+          bound,
+          reExpansions,
+          limitReached: true,
+        };
+      }
+      visitedCount++;
+      if (everExpanded.has(key)) reExpansions++;
+      else everExpanded.add(key);
+      yield { type: "expand", pos: current };
+
+      if (key === goalKey) {
+        const path = reconstructPath(graph, parentMap, start, goal);
+        yield { type: "path-found", path };
+        return {
+          path,
+          visitedCount,
+          peakFrontier,
+          success: true,
+          bound,
+          reExpansions,
+        };
+      }
+
+      const neighbors = graph.neighbors(current);
+      if (depth === bound) {
+        if (neighbors.length > 0) cutOff = true;
+        continue;
+      }
+      for (const { node: neighbor } of neighbors) {
+        const nKey = graph.key(neighbor);
+        const knownDepth = bestDepth.get(nKey);
+        if (knownDepth !== undefined && knownDepth <= depth + 1) continue;
+        bestDepth.set(nKey, depth + 1);
+        parentMap.set(nKey, current);
+        stack.push({ pos: neighbor, depth: depth + 1 });
+        peakFrontier = Math.max(peakFrontier, stack.length);
+        yield { type: "enqueue", pos: neighbor, parent: current };
+      }
+    }
+
+    // Nothing was cut off by the limit: every reachable node has been seen
+    if (!cutOff) {
+      yield { type: "exhausted" };
+      return {
+        path: [],
+        visitedCount,
+        peakFrontier,
+        success: false,
+        bound,
+        reExpansions,
+      };
+    }
+  }
+}
+
+/**
+ * IDA* Search. Depth-first search bounded by f = g + h, starting with
+ * h(start) and raising the bound to the smallest f that exceeded it. With
+ * √2 diagonals, terrain or elevator costs the bound can rise by tiny steps,
+ * each a full restart, so it gives up after options.expansionLimit
+ * expansions.
+ */
+export function* iterativeDeepeningAStarSearch(
+  graph: SearchGraph,
+  start: number[],
+  goal: number[],
+  options: SearchOptions = {}
+): SearchGenerator {
+  const limit = options.expansionLimit ?? DEFAULT_EXPANSION_LIMIT;
+  const goalKey = graph.key(goal);
+  const heuristic = (pos: number[]) => graph.heuristic(pos, goal);
+
+  const everExpanded = new Set<string>();
+  let visitedCount = 0;
+  let peakFrontier = 1;
+  let reExpansions = 0;
+  let bound = heuristic(start);
+
+  while (true) {
+    yield { type: "iteration", bound, reExpansions };
+    const bestG = new Map<string, number>([[graph.key(start), 0]]);
+    const parentMap = new Map<string, number[]>();
+    const stack: { pos: number[]; g: number }[] = [{ pos: start, g: 0 }];
+    let nextBound = Infinity;
+
+    while (stack.length > 0) {
+      const { pos: current, g } = stack.pop()!;
+      const key = graph.key(current);
+      if (bestG.get(key)! < g) continue;
+      if (visitedCount >= limit) {
+        yield { type: "exhausted" };
+        return {
+          path: [],
+          visitedCount,
+          peakFrontier,
+          success: false,
+          bound,
+          reExpansions,
+          limitReached: true,
+        };
+      }
+      visitedCount++;
+      if (everExpanded.has(key)) reExpansions++;
+      else everExpanded.add(key);
+      yield { type: "expand", pos: current };
+
+      if (key === goalKey) {
+        const path = reconstructPath(graph, parentMap, start, goal);
+        yield { type: "path-found", path };
+        return {
+          path,
+          visitedCount,
+          peakFrontier,
+          success: true,
+          bound,
+          reExpansions,
+        };
+      }
+
+      for (const { node: neighbor, cost: edgeCost } of graph.neighbors(
+        current
+      )) {
+        const nKey = graph.key(neighbor);
+        const nextG = g + edgeCost;
+        const f = nextG + heuristic(neighbor);
+        if (f > bound) {
+          nextBound = Math.min(nextBound, f);
+          continue;
+        }
+        const knownG = bestG.get(nKey);
+        if (knownG !== undefined && knownG <= nextG) continue;
+        bestG.set(nKey, nextG);
+        parentMap.set(nKey, current);
+        stack.push({ pos: neighbor, g: nextG });
+        peakFrontier = Math.max(peakFrontier, stack.length);
+        yield { type: "enqueue", pos: neighbor, parent: current };
+      }
+    }
+
+    if (nextBound === Infinity) {
+      yield { type: "exhausted" };
+      return {
+        path: [],
+        visitedCount,
+        peakFrontier,
+        success: false,
+        bound,
+        reExpansions,
+      };
+    }
+    bound = nextBound;
+  }
+}
+
+// Fills in the cells between consecutive jump points of a straight-line path
+function expandJumps(jumpPoints: number[][]): number[][] {
+  const path: number[][] = [jumpPoints[0]];
+  for (let i = 1; i < jumpPoints.length; i++) {
+    const [fx, fy] = jumpPoints[i - 1];
+    const [tx, ty] = jumpPoints[i];
+    const steps = Math.abs(tx - fx) + Math.abs(ty - fy);
+    for (let k = 1; k <= steps; k++) {
+      path.push([fx + Math.sign(tx - fx) * k, fy + Math.sign(ty - fy) * k]);
+    }
+  }
+  return path;
+}
+
+// Why Jump Point Search can't jump on a graph, or null when it can
+function jumpBlocker(grid?: number[][]): string | null {
+  if (!grid) return "needs a 4-way square 2D grid";
+  const cells = new Set(grid.flat());
+  const has = (types: number[]) => types.some((type) => cells.has(type));
+  if (has(Object.values(TERRAIN_CELLS))) return "weighted terrain";
+  if (has([...TELEPORTER_CELLS])) return "teleporters";
+  if (has(Object.keys(CONVEYOR_DIRECTIONS).map(Number))) return "conveyors";
+  return null;
+}
+
+/**
+ * Jump Point Search for 4-connected 2D grids. Canonical paths move
+ * vertically first: vertical jumps probe sideways at every cell, horizontal
+ * jumps only stop at the goal or where a wall forces a turn. Only the jump
+ * points are queued, which prunes most of the symmetric paths A* explores.
+ * Jumps assume 4-way moves that all cost the same within fixed borders, so
+ * any graph without a square 4-way grid behind it (layered 3D mazes, hex
+ * grids, tori, diagonal movement, arbitrary graphs) and grids with weighted
+ * terrain, teleporters or conveyors fall back to plain A*, saying why with a
+ * "fallback" event and in the result.
+ */
+export function* jumpPointSearch(
+  graph: SearchGraph,
+  start: number[],
+  goal: number[],
+  options: SearchOptions = {}
+): SearchGenerator {
+  const fallback = jumpBlocker(graph.grid);
+  if (fallback !== null) {
+    yield { type: "fallback", reason: fallback };
+    const result = yield* aStarSearch(graph, start, goal, options);
+    return { ...result, fallback };
+  }
+  const grid = graph.grid!;
+  const goalKey = graph.key(goal);
+  const [goalX, goalY] = goal;
+  const walkable = (x: number, y: number) =>
+    y >= 0 &&
+    y < grid.length &&
+    x >= 0 &&
+    x < grid[0].length &&
+    grid[y][x] !== CELL_TYPES.WALL;
+  const isGoal = (x: number, y: number) => x === goalX && y === goalY;
+
+  const jumpHorizontal = (
+    x: number,
+    y: number,
+    dx: number
+  ): Position | null => {
+    while (true) {
+      x += dx;
+      if (!walkable(x, y)) return null;
+      if (isGoal(x, y)) return [x, y];
+      for (const dy of [-1, 1]) {
+        if (walkable(x, y + dy) && !walkable(x - dx, y + dy)) return [x, y];
+      }
+    }
+  };
+
+  const jumpVertical = (x: number, y: number, dy: number): Position | null => {
+    while (true) {
+      y += dy;
+      if (!walkable(x, y)) return null;
+      if (isGoal(x, y)) return [x, y];
+      if (jumpHorizontal(x, y, 1) || jumpHorizontal(x, y, -1)) return [x, y];
+    }
+  };
+
+  // Directions worth jumping in from a node, given how it was reached
+  const successorDirections = (pos: number[], parent?: number[]) => {
+    if (!parent) {
+      return [
+        [1, 0],
+        [-1, 0],
+        [0, 1],
+        [0, -1],
+      ];
+    }
+    const [x, y] = pos;
+    const dx = Math.sign(x - parent[0]);
+    const dy = Math.sign(y - parent[1]);
+    if (dy !== 0) {
+      return [
+        [0, dy],
+        [1, 0],
+        [-1, 0],
+      ];
+    }
+    const dirs = [[dx, 0]];
+    for (const fy of [-1, 1]) {
+      if (walkable(x, y + fy) && !walkable(x - dx, y + fy)) dirs.push([0, fy]);
+    }
+    return dirs;
+  };
+
+  const heuristic = (pos: number[]) => graph.heuristic(pos, goal);
+
+  const openSet = new IndexedBinaryHeap<number[]>(options.tieBreaking);
+  openSet.push(graph.key(start), start, [heuristic(start), heuristic(start)]);
+  const closed = new Set<string>();
+  const parentMap = new Map<string, number[]>();
+  const gScore = new Map<string, number>([[graph.key(start), 0]]);
+  let visitedCount = 0;
+  let peakFrontier = 1;
+
+  while (openSet.size > 0) {
+    const current = openSet.pop()!;
+    const key = graph.key(current);
+    closed.add(key);
+    visitedCount++;
+    yield { type: "expand", pos: current };
+
+    if (key === goalKey) {
+      const path = expandJumps(reconstructPath(graph, parentMap, start, goal));
+      yield { type: "path-found", path };
+      return { path, visitedCount, peakFrontier, success: true };
+    }
+
+    const g = gScore.get(key)!;
+    for (const [dx, dy] of successorDirections(current, parentMap.get(key))) {
+      const jumpPoint =
+        dx !== 0
+          ? jumpHorizontal(current[0], current[1], dx)
+          : jumpVertical(current[0], current[1], dy);
+      if (!jumpPoint) continue;
+      const jKey = graph.key(jumpPoint);
+      if (closed.has(jKey)) continue;
+      const tentativeG =
+        g +
+        Math.abs(jumpPoint[0] - current[0]) +
+        Math.abs(jumpPoint[1] - current[1]);
+      const knownG = gScore.get(jKey);
+      if (knownG === undefined || tentativeG < knownG) {
+        parentMap.set(jKey, current);
+        gScore.set(jKey, tentativeG);
+        const h = heuristic(jumpPoint);
+        openSet.push(jKey, jumpPoint, [tentativeG + h, h]);
+        peakFrontier = Math.max(peakFrontier, openSet.size);
+        yield { type: "jump", from: current, to: jumpPoint };
+      }
+    }
+  }
+
+  yield { type: "exhausted" };
+  return { path: [], visitedCount, peakFrontier, success: false };
+}
+
+export const algorithmNames: Record<Algorithm, string> = {
+  bfs: "Breadth-First Search (BFS)",
+  dfs: "Depth-First Search (DFS)",
+  astar: "A* Search",
+  dijkstra: "Dijkstra's Algorithm",
+  greedy: "Greedy Best-First Search",
+  "bidirectional-bfs": "Bidirectional BFS",
+  "bidirectional-astar": "Bidirectional A*",
+  iddfs: "Iterative Deepening DFS (IDDFS)",
+  idastar: "IDA* Search",
+  jps: "Jump Point Search (JPS)",
+};
+
+// Algorithms steered by SearchOptions.heuristic; only A* reads the weight
+export const informedAlgorithms: ReadonlySet<Algorithm> = new Set<Algorithm>([
+  "astar",
+  "greedy",
+  "bidirectional-astar",
+  "idastar",
+  "jps",
+]);
+
+export const searchAlgorithms: Record<Algorithm, SearchAlgorithm> = {
+  bfs: breadthFirstSearch,
+  dfs: depthFirstSearch,
+  astar: aStarSearch,
+  dijkstra: dijkstraSearch,
+  greedy: greedyBestFirstSearch,
+  "bidirectional-bfs": bidirectionalBreadthFirstSearch,
+  "bidirectional-astar": bidirectionalAStarSearch,
+  iddfs: iterativeDeepeningSearch,
+  idastar: iterativeDeepeningAStarSearch,
+  jps: jumpPointSearch,
+};
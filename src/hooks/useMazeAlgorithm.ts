@@ -1,26 +1,75 @@
-import React, { useRef, useMemo, useEffect } from "react";
+import React, { useRef, useMemo, useEffect, useCallback } from "react";
 
-import type { MazeSettings, MazeStats } from "@/App";
+import type { MazeSettings, MazeStats, StepDirection } from "@/App";
 import type { SciFiSphereHandle } from "@/components/SciFiSphere";
+import type { SphereColorBuffer } from "@/components/SciFiSphere";
+import type { JumpLinesHandle } from "@/components/JumpLines";
 import {
-  aStarSearch,
-  breadthFirstSearch,
   CELL_TYPES,
   COLORS,
-  depthFirstSearch,
-  dijkstraSearch,
-  greedyBestFirstSearch,
+  TELEPORTER_CELLS,
+  isSamePos,
+  portalLinkBetween,
 } from "@/components/utils";
+import type { PortalMap, SearchEvent, SearchResult } from "@/components/utils";
+import type {
+  SearchWorkerRequest,
+  SearchWorkerResponse,
+} from "@/workers/searchWorker";
 
 type Position2D = [number, number];
 type Position3D = [number, number, number];
 type Position = Position2D | Position3D;
 
+// Layer spacing used by Maze3DView, needed to address elevator threads
+const LAYER_SPACING = 10;
+
+const delay = (ms: number) => new Promise((res) => setTimeout(res, ms));
+
+// Color a node takes on from a search event, or null if it paints no node
+const eventColor = (event: SearchEvent): number | null => {
+  const backward = "side" in event && event.side === "backward";
+  switch (event.type) {
+    case "expand":
+      return backward ? COLORS.VISITED_BACKWARD : COLORS.VISITED;
+    case "enqueue":
+    case "relax":
+      return backward ? COLORS.FRONTIER_BACKWARD : COLORS.FRONTIER;
+    case "meet":
+      return COLORS.MEETING;
+    case "jump":
+      return COLORS.JUMP_POINT;
+    default:
+      return null;
+  }
+};
+
+export interface TimelineSnapshot {
+  // Expansions currently painted
+  position: number;
+  // Expansions recorded so far
+  length: number;
+  // Whether the search has produced all of its events
+  complete: boolean;
+}
+
+export interface Timeline {
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => TimelineSnapshot;
+  seek: (position: number) => void;
+}
+
 interface UseMazeAlgorithmProps<T extends Position> {
   maze: number[][] | number[][][];
+  // Elevators of a 3D maze
+  portals?: PortalMap;
   settings: MazeSettings;
   isRunning: boolean;
   setIsRunning: React.Dispatch<React.SetStateAction<boolean>>;
+  isPaused: boolean;
+  setIsPaused: React.Dispatch<React.SetStateAction<boolean>>;
+  stepRequest: StepDirection | null;
+  setStepRequest: React.Dispatch<React.SetStateAction<StepDirection | null>>;
   setStats: React.Dispatch<React.SetStateAction<MazeStats | null>>;
   shouldReset: boolean;
   setShouldReset: React.Dispatch<React.SetStateAction<boolean>>;
@@ -30,9 +79,14 @@ interface UseMazeAlgorithmProps<T extends Position> {
 
 export function useMazeAlgorithm<T extends Position>({
   maze,
+  portals,
   settings,
   isRunning,
   setIsRunning,
+  isPaused,
+  setIsPaused,
+  stepRequest,
+  setStepRequest,
   setStats,
   shouldReset,
   setShouldReset,
@@ -40,7 +94,31 @@ export function useMazeAlgorithm<T extends Position>({
 }: UseMazeAlgorithmProps<T>) {
   const sphereRefs = useRef<Map<string, SciFiSphereHandle>>(new Map());
   const threadRefs = useRef(new Map());
-  const abortControllerRef = useRef<AbortController | null>(null);
+  // The search runs in a worker; bumping runIdRef cancels the current run
+  const workerRef = useRef<Worker | null>(null);
+  const runIdRef = useRef(0);
+  const runActiveRef = useRef(false);
+  // Playback loops waiting for new events, a resume, or a cancel
+  const wakeRef = useRef(new Set<() => void>());
+
+  // Recorded run: every event the worker has streamed so far, and how many
+  // of them are currently painted. Playback and stepping move the cursor.
+  const historyRef = useRef<SearchEvent[]>([]);
+  const cursorRef = useRef(0);
+  const resultRef = useRef<SearchResult | null>(null);
+  const pausedRef = useRef(isPaused);
+  const speedRef = useRef(settings.animationSpeed);
+  const skipAnimationRef = useRef(settings.skipAnimation);
+  // History indices of every "expand" event, i.e. the timeline positions
+  const expandIndicesRef = useRef<number[]>([]);
+  const sphereBufferRef = useRef<SphereColorBuffer | null>(null);
+  const jumpLinesRef = useRef<JumpLinesHandle | null>(null);
+  const timelineRef = useRef<TimelineSnapshot>({
+    position: 0,
+    length: 0,
+    complete: false,
+  });
+  const timelineListenersRef = useRef(new Set<() => void>());
 
   // Paint node function that works for both 2D and 3D
   const paintNode = (...args: [...number[], number]) => {
@@ -80,13 +158,10 @@ export function useMazeAlgorithm<T extends Position>({
       for (let y = 0; y < maze2D.length; y++) {
         for (let x = 0; x < maze2D[y].length; x++) {
           const cell = maze2D[y][x];
-          if (cell === CELL_TYPES.NODE) allNodes.push([x, y] as T);
-          else if (cell === CELL_TYPES.START) {
-            s = [x, y] as T;
-            allNodes.push([x, y] as T);
-          } else if (cell === CELL_TYPES.GOAL) {
-            g = [x, y] as T;
+          if (cell !== CELL_TYPES.WALL) {
             allNodes.push([x, y] as T);
+            if (cell === CELL_TYPES.START) s = [x, y] as T;
+            if (cell === CELL_TYPES.GOAL) g = [x, y] as T;
           }
         }
       }
@@ -110,36 +185,33 @@ export function useMazeAlgorithm<T extends Position>({
     return { nodes: allNodes, start: s, goal: g };
   }, [maze, viewType]);
 
+  // Resting color of a node when nothing has been painted over it
+  const baseColor = (pos: number[]) => {
+    if (start && isSamePos(pos, start)) return COLORS.START;
+    if (goal && isSamePos(pos, goal)) return COLORS.GOAL;
+    const [x, y, z] = pos;
+    const cellType =
+      viewType === "3D"
+        ? (maze as number[][][])[z]?.[y]?.[x]
+        : (maze as number[][])[y]?.[x];
+    if (cellType === CELL_TYPES.PORTAL_UP) return COLORS.PORTAL_UP;
+    if (cellType === CELL_TYPES.PORTAL_DOWN) return COLORS.PORTAL_DOWN;
+    if (cellType === CELL_TYPES.DROP_HOLE) return COLORS.DROP_HOLE;
+    const teleporter = TELEPORTER_CELLS.indexOf(cellType);
+    if (teleporter !== -1) return COLORS.TELEPORTERS[teleporter];
+    return 0;
+  };
+
   // Reset colors for all nodes and all threads
   const resetColors = () => {
     // Reset all spheres (nodes)
     nodes.forEach((pos) => {
-      const key = pos.join("-");
-      const sphere = sphereRefs.current.get(key);
-
-      if (!sphere) return;
-
-      const isStart = start && pos.every((v, i) => v === start[i]);
-      const isGoal = goal && pos.every((v, i) => v === goal[i]);
-
-      let color = 0;
-      if (isStart) {
-        color = COLORS.START;
-      } else if (isGoal) {
-        color = COLORS.GOAL;
-      } else if (viewType === "3D" && pos.length === 3) {
-        const [x, y, z] = pos;
-        const cellType = (maze as number[][][])[z]?.[y]?.[x];
-        if (cellType === CELL_TYPES.PORTAL_UP) {
-          color = COLORS.PORTAL_UP;
-        } else if (cellType === CELL_TYPES.PORTAL_DOWN) {
-          color = COLORS.PORTAL_DOWN;
-        }
-      }
-
-      sphere.paint(color);
+      const sphere = sphereRefs.current.get(pos.join("-"));
+      if (sphere) sphere.paint(baseColor(pos));
     });
 
+    jumpLinesRef.current?.clear();
+
     // Reset all threads to invisible (color 0)
     if (threadRefs && threadRefs.current) {
       threadRefs.current.forEach((ref) => {
@@ -162,6 +234,283 @@ export function useMazeAlgorithm<T extends Position>({
     return () => clearTimeout(timer);
   }, [maze, start, goal]);
 
+  const isEndpoint = (pos: number[]) =>
+    (!!start && isSamePos(pos, start)) || (!!goal && isSamePos(pos, goal));
+
+  const paintPathStep = (path: number[][], i: number, meet?: number[]) => {
+    const p = path[i];
+    if (!isEndpoint(p)) {
+      paintNode(
+        ...p,
+        meet && isSamePos(p, meet) ? COLORS.MEETING : COLORS.PATH
+      );
+    }
+
+    // Threads run from the PORTAL_UP end, whichever way the path rides
+    const link = path[i + 1] && portalLinkBetween(portals, p, path[i + 1]);
+    if (link) {
+      // +1 to match spherePositions.y in Maze3DView
+      paintThread(
+        [link.from[0], link.from[1], link.from[2] * LAYER_SPACING + 1],
+        [link.to[0], link.to[1], link.to[2] * LAYER_SPACING + 1],
+        COLORS.PATH
+      );
+    }
+  };
+
+  // Turn one search event into paint calls, without any waiting
+  // Live stats while an iterative deepening search moves to a new bound
+  const showIteration = (
+    event: Extract<SearchEvent, { type: "iteration" }>
+  ) => {
+    setStats({
+      pathLength: 0,
+      nodesVisited: expansionsBefore(cursorRef.current),
+      success: false,
+      bound: event.bound,
+      reExpansions: event.reExpansions,
+    });
+  };
+
+  const paintEvent = (event: SearchEvent) => {
+    if (event.type === "iteration") {
+      // Each new bound starts the search over, so the board starts over too
+      resetColors();
+      if (runActiveRef.current) showIteration(event);
+      return;
+    }
+    if (event.type === "path-found") {
+      event.path.forEach((_, i) => paintPathStep(event.path, i, event.meet));
+      return;
+    }
+    if (event.type === "jump") {
+      jumpLinesRef.current?.add(event.from, event.to);
+      if (!isEndpoint(event.to)) paintNode(...event.to, COLORS.JUMP_POINT);
+      return;
+    }
+    const color = eventColor(event);
+    if (color !== null && "pos" in event && !isEndpoint(event.pos)) {
+      paintNode(...event.pos, color);
+    }
+  };
+
+  // Same as paintEvent, but paced for live playback
+  const animateEvent = async (event: SearchEvent, delayMs: number) => {
+    if (event.type === "path-found") {
+      for (let i = 0; i < event.path.length; i++) {
+        paintPathStep(event.path, i, event.meet);
+        if (!isEndpoint(event.path[i])) await delay(delayMs / 2);
+      }
+      return;
+    }
+    paintEvent(event);
+    if (event.type === "expand" && !isEndpoint(event.pos)) {
+      await delay(delayMs);
+    }
+  };
+
+  const waitForWake = () =>
+    new Promise<void>((resolve) => wakeRef.current.add(resolve));
+
+  const wake = useCallback(() => {
+    const waiters = [...wakeRef.current];
+    wakeRef.current.clear();
+    waiters.forEach((resolve) => resolve());
+  }, []);
+
+  const recordEvents = (events: SearchEvent[]) => {
+    for (const event of events) {
+      if (event.type === "expand") {
+        expandIndicesRef.current.push(historyRef.current.length);
+      }
+      historyRef.current.push(event);
+    }
+  };
+
+  const subscribeTimeline = useCallback((listener: () => void) => {
+    const listeners = timelineListenersRef.current;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+
+  const getTimelineSnapshot = useCallback(() => timelineRef.current, []);
+
+  // Number of expand events strictly before a history index
+  const expansionsBefore = (index: number) => {
+    const expandIndices = expandIndicesRef.current;
+    let lo = 0;
+    let hi = expandIndices.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (expandIndices[mid] < index) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+
+  const publishTimeline = () => {
+    const expandIndices = expandIndicesRef.current;
+    timelineRef.current = {
+      position: expansionsBefore(cursorRef.current),
+      length: expandIndices.length,
+      complete: resultRef.current !== null,
+    };
+    timelineListenersRef.current.forEach((listener) => listener());
+  };
+
+  // Rebuild every sphere color from the first `target` events in one pass
+  // over the instanced color buffers, instead of replaying paint calls
+  const paintFrame = (target: number) => {
+    const history = historyRef.current;
+    const colors = new Map<string, number>();
+    const jumps: [number[], number[]][] = [];
+    let pathEvent: Extract<SearchEvent, { type: "path-found" }> | null = null;
+    let iteration: Extract<SearchEvent, { type: "iteration" }> | null = null;
+    for (let i = 0; i < target; i++) {
+      const event = history[i];
+      const color = eventColor(event);
+      if (event.type === "iteration") {
+        colors.clear();
+        iteration = event;
+      } else if (event.type === "jump") {
+        colors.set(event.to.join("-"), COLORS.JUMP_POINT);
+        jumps.push([event.from, event.to]);
+      } else if (color !== null && "pos" in event) {
+        colors.set(event.pos.join("-"), color);
+      } else if (event.type === "path-found") {
+        pathEvent = event;
+      }
+    }
+    for (const p of pathEvent?.path ?? []) colors.set(p.join("-"), COLORS.PATH);
+    if (pathEvent?.meet) colors.set(pathEvent.meet.join("-"), COLORS.MEETING);
+    for (const pos of nodes) {
+      const key = pos.join("-");
+      if (isEndpoint(pos) || !colors.has(key)) colors.set(key, baseColor(pos));
+    }
+
+    if (sphereBufferRef.current) {
+      sphereBufferRef.current.paintAll(colors);
+    } else {
+      nodes.forEach((pos) => paintNode(...pos, colors.get(pos.join("-"))!));
+    }
+
+    jumpLinesRef.current?.setAll(jumps);
+    threadRefs.current.forEach((ref) => ref?.paint?.(0));
+    if (pathEvent) {
+      const { path, meet } = pathEvent;
+      path.forEach((_, i) => paintPathStep(path, i, meet));
+    }
+
+    cursorRef.current = target;
+    if (iteration && runActiveRef.current) showIteration(iteration);
+  };
+
+  const stopWorker = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  const finishRun = () => {
+    const result = resultRef.current;
+    if (result) {
+      setStats({
+        pathLength: result.path.length,
+        nodesVisited: result.visitedCount,
+        success: result.success,
+        pathCost: result.pathCost,
+        optimalCost: result.optimalCost,
+        bound: result.bound,
+        reExpansions: result.reExpansions,
+        fallback: result.fallback,
+        limitReached: result.limitReached,
+      });
+    }
+    runActiveRef.current = false;
+    publishTimeline();
+    setIsRunning(false);
+    setIsPaused(false);
+  };
+
+  // Cancels the current run; any waiting playback loop sees a new run id
+  const cancelRun = useCallback(() => {
+    runIdRef.current++;
+    runActiveRef.current = false;
+    stopWorker();
+    wake();
+  }, [stopWorker, wake]);
+
+  const play = async (runId: number) => {
+    while (runIdRef.current === runId && runActiveRef.current) {
+      if (pausedRef.current) {
+        await waitForWake();
+        continue;
+      }
+      // Skipping the animation jumps straight to the final frame once the
+      // worker is done; the run can still be replayed with the timeline
+      if (skipAnimationRef.current && resultRef.current) {
+        paintFrame(historyRef.current.length);
+        finishRun();
+        return;
+      }
+      const event = historyRef.current[cursorRef.current];
+      if (!event || skipAnimationRef.current) {
+        if (!event && resultRef.current) {
+          finishRun();
+          return;
+        }
+        await waitForWake();
+        continue;
+      }
+      cursorRef.current++;
+      if (event.type === "expand") publishTimeline();
+      // Read the speed on every step so the slider works mid-run
+      await animateEvent(event, 100 - speedRef.current);
+    }
+  };
+
+  // Paint everything up to the next expansion, plus what it enqueued
+  const stepForward = async () => {
+    const runId = runIdRef.current;
+    let seenExpand = false;
+    while (runIdRef.current === runId) {
+      const event = historyRef.current[cursorRef.current];
+      if (!event) {
+        if (resultRef.current) {
+          if (runActiveRef.current) finishRun();
+          break;
+        }
+        await waitForWake();
+        continue;
+      }
+      if (event.type === "expand") {
+        if (seenExpand) break;
+        seenExpand = true;
+      }
+      paintEvent(event);
+      cursorRef.current++;
+    }
+    publishTimeline();
+  };
+
+  // Show the state right before the given expansion (0 = nothing expanded).
+  // Positions past the recorded expansions show the whole recording.
+  const seek = (position: number) => {
+    const expandIndices = expandIndicesRef.current;
+    const target =
+      position < expandIndices.length
+        ? expandIndices[Math.max(0, position)]
+        : historyRef.current.length;
+    paintFrame(target);
+    publishTimeline();
+  };
+
+  // Rewind to just before the last painted expansion
+  const stepBackward = () => {
+    seek(Math.max(0, timelineRef.current.position - 1));
+  };
+
   // Run the selected algorithm
   const runAlgorithm = async () => {
     if (!start || !goal || !isRunning) return;
@@ -171,58 +520,72 @@ export function useMazeAlgorithm<T extends Position>({
     setStats(null);
     resetColors();
 
-    const controller = new AbortController();
-    abortControllerRef.current = controller;
-
-    const delay = 100 - settings.animationSpeed;
-
-    try {
-      let result;
-      const signal = controller.signal;
-
-      const algorithmMap = {
-        bfs: breadthFirstSearch,
-        dfs: depthFirstSearch,
-        astar: aStarSearch,
-        dijkstra: dijkstraSearch,
-        greedy: greedyBestFirstSearch,
-      };
-
-      const algorithmFn = algorithmMap[settings.algorithm];
-      if (algorithmFn) {
-        result = await algorithmFn(
-          maze,
-          start as number[],
-          goal as number[],
-          paintNode as any,
-          delay,
-          viewType,
-          paintThread,
-          signal
-        );
-
-        setStats({
-          pathLength: result?.path.length ?? 0,
-          nodesVisited: result?.visitedCount ?? 0,
-          success: result?.success ?? false,
-        });
-      }
-    } catch (err) {
-      if ((err as any).name !== "AbortError") {
-        console.error("Algorithm error:", err);
+    cancelRun();
+    const runId = runIdRef.current;
+    runActiveRef.current = true;
+    historyRef.current = [];
+    expandIndicesRef.current = [];
+    cursorRef.current = 0;
+    resultRef.current = null;
+    publishTimeline();
+
+    const worker = new Worker(
+      new URL("../workers/searchWorker.ts", import.meta.url),
+      { type: "module" }
+    );
+    workerRef.current = worker;
+    worker.onmessage = (e: MessageEvent<SearchWorkerResponse>) => {
+      if (runIdRef.current !== runId) return;
+      const message = e.data;
+      if (message.type === "events") {
+        recordEvents(message.events);
+        publishTimeline();
+      } else if (message.type === "done") {
+        resultRef.current = message.result;
+        stopWorker();
+        publishTimeline();
+      } else {
+        console.error("Algorithm error:", message.message);
+        cancelRun();
+        setIsRunning(false);
+        setIsPaused(false);
+        return;
       }
-    } finally {
-      setIsRunning(false);
-      abortControllerRef.current = null;
-    }
+      wake();
+    };
+    const request: SearchWorkerRequest = {
+      algorithm: settings.algorithm,
+      maze,
+      start: start as number[],
+      goal: goal as number[],
+      viewType,
+      options: {
+        tieBreaking: settings.tieBreaking,
+        terrainCosts: settings.terrainCosts,
+        movement: settings.movement,
+        // 3D layers are always square
+        topology: viewType === "2D" ? settings.topology : "square",
+        heuristic: settings.heuristic,
+        weight: settings.weight,
+        portals,
+        elevatorCost: settings.elevatorCost,
+      },
+    };
+    worker.postMessage(request);
+
+    await play(runId);
   };
 
   // Handle reset
   const handleReset = () => {
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-    }
+    cancelRun();
+    historyRef.current = [];
+    expandIndicesRef.current = [];
+    cursorRef.current = 0;
+    resultRef.current = null;
+    publishTimeline();
     setIsRunning(false);
+    setIsPaused(false);
     setStats(null);
     resetColors();
 
@@ -244,9 +607,56 @@ export function useMazeAlgorithm<T extends Position>({
     if (shouldReset) handleReset();
   }, [shouldReset]);
 
+  // Stop the worker when the view goes away
+  useEffect(() => cancelRun, [cancelRun]);
+
+  // Keep playback in sync with the pause toggle
+  useEffect(() => {
+    pausedRef.current = isPaused;
+    if (!isPaused) wake();
+  }, [isPaused, wake]);
+
+  useEffect(() => {
+    speedRef.current = settings.animationSpeed;
+  }, [settings.animationSpeed]);
+
+  useEffect(() => {
+    skipAnimationRef.current = settings.skipAnimation;
+    wake();
+  }, [settings.skipAnimation, wake]);
+
+  // Latest step handlers; they close over this render's painting helpers,
+  // so the step effect reads them here instead of re-running every render
+  const stepHandlersRef = useRef({ stepForward, stepBackward });
+  useEffect(() => {
+    stepHandlersRef.current = { stepForward, stepBackward };
+  });
+
+  // Step through the recorded run while paused or after it finished
+  useEffect(() => {
+    if (!stepRequest) return;
+    setStepRequest(null);
+    if (isRunning && !isPaused) return;
+    if (stepRequest === "forward") stepHandlersRef.current.stepForward();
+    else stepHandlersRef.current.stepBackward();
+  }, [stepRequest, isRunning, isPaused, setStepRequest]);
+
+  const timeline: Timeline = {
+    subscribe: subscribeTimeline,
+    getSnapshot: getTimelineSnapshot,
+    // Scrubbing takes over from live playback
+    seek: (position: number) => {
+      if (isRunning) setIsPaused(true);
+      seek(position);
+    },
+  };
+
   return {
     sphereRefs,
+    sphereBufferRef,
+    jumpLinesRef,
     threadRefs,
+    timeline,
     nodes,
     start,
     goal,
@@ -0,0 +1,459 @@
+import { useState } from "react";
+
+import {
+  CELL_TYPES,
+  COLORS,
+  TERRAIN_CELLS,
+  createPortalMap,
+} from "@/components/utils";
+import type {
+  PortalLink,
+  PortalMap,
+  Position3D,
+  Topology,
+} from "@/components/utils";
+
+export type Brush =
+  "wall" | "erase" | "start" | "goal" | "portal-up" | "portal-down";
+
+const toHex = (color: number) => `#${color.toString(16).padStart(6, "0")}`;
+
+// Hover ring color of each brush
+export const brushColors: Record<Brush, string> = {
+  wall: "#00ff88",
+  erase: "#00ff88",
+  start: toHex(COLORS.START),
+  goal: toHex(COLORS.GOAL),
+  "portal-up": toHex(COLORS.PORTAL_UP),
+  "portal-down": toHex(COLORS.PORTAL_DOWN),
+};
+
+// What a stroke does to every cell it passes over. A portal stroke places an
+// elevator, or picks up one end of an existing one, and carries that end
+// along with the pointer.
+type Stroke =
+  | { mode: "wall" | "erase" | "move-start" | "move-goal"; layer: number }
+  | {
+      mode: "portal";
+      layer: number;
+      // Which way a newly placed elevator leads
+      place: "up" | "down";
+      at: [number, number] | null;
+    };
+
+// Everything one undo step restores
+interface Snapshot {
+  maze: number[][][];
+  portals: PortalMap;
+}
+
+interface EditorState<S> {
+  // Generated maze the edits apply to; a new one drops all edits
+  source: S;
+  current: Snapshot;
+  undo: Snapshot[];
+  redo: Snapshot[];
+  // Snapshot before the current stroke, which undoes as a single step
+  strokeBase: Snapshot | null;
+  stroke: Stroke | null;
+}
+
+interface EditorControls {
+  // Active brush, or null when the pointer steers the camera
+  brush: Brush | null;
+  setBrush: (brush: Brush | null) => void;
+  beginStroke: (x: number, y: number) => void;
+  continueStroke: (x: number, y: number) => void;
+  endStroke: () => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export interface MazeEditor extends EditorControls {
+  maze: number[][];
+}
+
+export interface MazeEditor3D extends EditorControls {
+  maze: number[][][];
+  portals: PortalMap;
+  // Layer strokes apply to
+  layer: number;
+  setLayer: (layer: number) => void;
+}
+
+const NO_PORTALS = createPortalMap([]);
+
+const freshState = <S>(source: S, current: Snapshot): EditorState<S> => ({
+  source,
+  current,
+  undo: [],
+  redo: [],
+  strokeBase: null,
+  stroke: null,
+});
+
+const isEndpoint = (cell: number) =>
+  cell === CELL_TYPES.START || cell === CELL_TYPES.GOAL;
+
+const isPortal = (cell: number) =>
+  cell === CELL_TYPES.PORTAL_UP || cell === CELL_TYPES.PORTAL_DOWN;
+
+// Cells a portal may take over; teleporters, conveyors and drop holes would
+// lose their meaning, and a teleporter its twin
+const isFloor = (cell: number) =>
+  cell === CELL_TYPES.NODE || Object.values(TERRAIN_CELLS).includes(cell);
+
+const samePos = (a: Position3D, b: Position3D) =>
+  a[0] === b[0] && a[1] === b[1] && a[2] === b[2];
+
+/**
+ * Portals lead to the layer above or below, so a brush that places one
+ * needs that layer to exist.
+ */
+export function canPlaceBrush(brush: Brush, layer: number, layers: number) {
+  if (brush === "portal-up") return layer < layers - 1;
+  if (brush === "portal-down") return layer > 0;
+  return true;
+}
+
+// Pressing on START or GOAL drags it, whatever the brush, and pressing on a
+// portal drags it unless erasing; the wall brush erases when the stroke
+// starts on a wall, so it toggles
+function strokeFor(
+  brush: Brush,
+  cell: number,
+  x: number,
+  y: number,
+  layer: number
+): Stroke {
+  if (cell === CELL_TYPES.START || brush === "start") {
+    return { mode: "move-start", layer };
+  }
+  if (cell === CELL_TYPES.GOAL || brush === "goal") {
+    return { mode: "move-goal", layer };
+  }
+  const place = brush === "portal-down" ? "down" : "up";
+  if (brush !== "erase" && isPortal(cell)) {
+    return { mode: "portal", layer, place, at: [x, y] };
+  }
+  if (brush === "portal-up" || brush === "portal-down") {
+    return { mode: "portal", layer, place, at: null };
+  }
+  if (brush === "wall" && cell === CELL_TYPES.WALL) {
+    return { mode: "erase", layer };
+  }
+  return { mode: brush === "wall" ? "wall" : "erase", layer };
+}
+
+// Writes [x, y, z, value] cells, copying only the layers it touches
+function setCells(
+  maze: number[][][],
+  cells: [number, number, number, number][]
+): number[][][] {
+  const next = [...maze];
+  for (const [x, y, z, value] of cells) {
+    if (next[z] === maze[z]) next[z] = maze[z].map((row) => [...row]);
+    next[z][y][x] = value;
+  }
+  return next;
+}
+
+// Deletes every elevator with an end at `pos`. Far ends that no other
+// elevator uses go back to plain cells.
+function removeElevators(snapshot: Snapshot, pos: Position3D): Snapshot {
+  const touches = (link: PortalLink) =>
+    samePos(link.from, pos) || samePos(link.to, pos);
+  const kept = snapshot.portals.links.filter((link) => !touches(link));
+  const cells: [number, number, number, number][] = [[...pos, CELL_TYPES.NODE]];
+  for (const link of snapshot.portals.links.filter(touches)) {
+    const far = samePos(link.from, pos) ? link.to : link.from;
+    if (
+      !kept.some((other) => samePos(other.from, far) || samePos(other.to, far))
+    ) {
+      cells.push([...far, CELL_TYPES.NODE]);
+    }
+  }
+  return {
+    maze: setCells(snapshot.maze, cells),
+    portals: createPortalMap(kept),
+  };
+}
+
+// Adds an elevator between (x, y) on `layer` and the same cell one floor up
+// or down, carving the far end if it is a wall; refused unless both ends
+// are floor
+function placeElevator(
+  snapshot: Snapshot,
+  x: number,
+  y: number,
+  layer: number,
+  place: "up" | "down"
+): Snapshot {
+  const other = place === "up" ? layer + 1 : layer - 1;
+  const farCell = snapshot.maze[other]?.[y]?.[x];
+  if (
+    !isFloor(snapshot.maze[layer][y][x]) ||
+    farCell === undefined ||
+    (farCell !== CELL_TYPES.WALL && !isFloor(farCell))
+  ) {
+    return snapshot;
+  }
+  const from: Position3D = place === "up" ? [x, y, layer] : [x, y, other];
+  const to: Position3D = place === "up" ? [x, y, other] : [x, y, layer];
+  return {
+    maze: setCells(snapshot.maze, [
+      [...from, CELL_TYPES.PORTAL_UP],
+      [...to, CELL_TYPES.PORTAL_DOWN],
+    ]),
+    portals: createPortalMap([...snapshot.portals.links, { from, to }]),
+  };
+}
+
+// Moves a portal cell within its layer, taking its elevators along; refused
+// unless the target is floor
+function movePortal(
+  snapshot: Snapshot,
+  from: Position3D,
+  to: Position3D
+): Snapshot {
+  if (!isFloor(snapshot.maze[to[2]][to[1]][to[0]])) return snapshot;
+  const type = snapshot.maze[from[2]][from[1]][from[0]];
+  const moved = (end: Position3D) => (samePos(end, from) ? to : end);
+  return {
+    maze: setCells(snapshot.maze, [
+      [...from, CELL_TYPES.NODE],
+      [...to, type],
+    ]),
+    portals: createPortalMap(
+      snapshot.portals.links.map((link) => ({
+        from: moved(link.from),
+        to: moved(link.to),
+      }))
+    ),
+  };
+}
+
+// Applies a stroke to one cell; returns the same snapshot when nothing
+// changes. The outer border stays solid so searches never leave the grid,
+// except on a torus, where the edge cells wrap and are as editable as any.
+function applyStroke(
+  snapshot: Snapshot,
+  x: number,
+  y: number,
+  stroke: Stroke,
+  topology: Topology
+): Snapshot {
+  const { maze } = snapshot;
+  const layer = maze[stroke.layer];
+  const border = topology === "torus" ? 0 : 1;
+  if (
+    y < border ||
+    y >= layer.length - border ||
+    x < border ||
+    x >= layer[0].length - border
+  ) {
+    return snapshot;
+  }
+  const cell = layer[y][x];
+  if (isEndpoint(cell)) return snapshot;
+  const set = (value: number): Snapshot => ({
+    ...snapshot,
+    maze: setCells(maze, [[x, y, stroke.layer, value]]),
+  });
+
+  switch (stroke.mode) {
+    case "wall":
+      if (cell === CELL_TYPES.WALL || isPortal(cell)) return snapshot;
+      return set(CELL_TYPES.WALL);
+    case "erase":
+      if (isPortal(cell)) {
+        return removeElevators(snapshot, [x, y, stroke.layer]);
+      }
+      if (cell === CELL_TYPES.NODE) return snapshot;
+      return set(CELL_TYPES.NODE);
+    case "move-start":
+    case "move-goal": {
+      if (isPortal(cell)) return snapshot;
+      const type =
+        stroke.mode === "move-start" ? CELL_TYPES.START : CELL_TYPES.GOAL;
+      const cells: [number, number, number, number][] = [];
+      maze.forEach((rows, z) =>
+        rows.forEach((row, py) => {
+          const px = row.indexOf(type);
+          if (px !== -1) cells.push([px, py, z, CELL_TYPES.NODE]);
+        })
+      );
+      return {
+        ...snapshot,
+        maze: setCells(maze, [...cells, [x, y, stroke.layer, type]]),
+      };
+    }
+    case "portal":
+      // Never lands on another portal; the carried one stays put instead
+      if (isPortal(cell)) return snapshot;
+      return stroke.at
+        ? movePortal(
+            snapshot,
+            [...stroke.at, stroke.layer],
+            [x, y, stroke.layer]
+          )
+        : placeElevator(snapshot, x, y, stroke.layer, stroke.place);
+  }
+}
+
+// Tracks where a portal stroke's portal is after the pointer moves
+const advance = (stroke: Stroke, x: number, y: number, moved: boolean) =>
+  stroke.mode === "portal" && moved
+    ? { ...stroke, at: [x, y] as [number, number] }
+    : stroke;
+
+// Edit history shared by the 2D and 3D editors, over a stack of layers
+function useEditorState<S>(
+  source: S,
+  snapshotOf: (source: S) => Snapshot,
+  layer: number,
+  topology: Topology,
+  onEdit?: () => void
+) {
+  const [state, setState] = useState(() =>
+    freshState(source, snapshotOf(source))
+  );
+  const [brush, setBrush] = useState<Brush | null>(null);
+
+  if (state.source !== source) {
+    setState(freshState(source, snapshotOf(source)));
+  }
+
+  const beginStroke = (x: number, y: number) => {
+    const layers = state.current.maze.length;
+    if (!brush || layer >= layers) return;
+    if (!canPlaceBrush(brush, layer, layers)) return;
+    onEdit?.();
+    setState((s) => {
+      const cell = s.current.maze[layer][y]?.[x] ?? CELL_TYPES.WALL;
+      const stroke = strokeFor(brush, cell, x, y, layer);
+      const current = applyStroke(s.current, x, y, stroke, topology);
+      return {
+        ...s,
+        current,
+        strokeBase: s.current,
+        stroke: advance(stroke, x, y, current !== s.current),
+      };
+    });
+  };
+
+  const continueStroke = (x: number, y: number) => {
+    setState((s) => {
+      if (!s.stroke) return s;
+      const current = applyStroke(s.current, x, y, s.stroke, topology);
+      return current === s.current
+        ? s
+        : { ...s, current, stroke: advance(s.stroke, x, y, true) };
+    });
+  };
+
+  const endStroke = () => {
+    setState((s) => {
+      if (!s.strokeBase) return s;
+      const changed = s.strokeBase !== s.current;
+      return {
+        ...s,
+        undo: changed ? [...s.undo, s.strokeBase] : s.undo,
+        redo: changed ? [] : s.redo,
+        strokeBase: null,
+        stroke: null,
+      };
+    });
+  };
+
+  const undo = () => {
+    onEdit?.();
+    setState((s) =>
+      s.undo.length === 0
+        ? s
+        : {
+            ...s,
+            current: s.undo[s.undo.length - 1],
+            undo: s.undo.slice(0, -1),
+            redo: [...s.redo, s.current],
+          }
+    );
+  };
+
+  const redo = () => {
+    onEdit?.();
+    setState((s) =>
+      s.redo.length === 0
+        ? s
+        : {
+            ...s,
+            current: s.redo[s.redo.length - 1],
+            redo: s.redo.slice(0, -1),
+            undo: [...s.undo, s.current],
+          }
+    );
+  };
+
+  return {
+    current: state.current,
+    brush,
+    setBrush,
+    beginStroke,
+    continueStroke,
+    endStroke,
+    undo,
+    redo,
+    canUndo: state.undo.length > 0,
+    canRedo: state.redo.length > 0,
+  };
+}
+
+/**
+ * Editable copy of the generated 2D maze. Strokes paint with the active
+ * brush and undo as a whole; a newly generated maze replaces all edits.
+ */
+export function useMazeEditor(
+  generated: number[][],
+  topology: Topology,
+  onEdit?: () => void
+): MazeEditor {
+  const { current, ...controls } = useEditorState(
+    generated,
+    (maze) => ({ maze: [maze], portals: NO_PORTALS }),
+    0,
+    topology,
+    onEdit
+  );
+  return { ...controls, maze: current.maze[0] };
+}
+
+/**
+ * Editable copy of the generated 3D maze and its elevators. Strokes apply to
+ * the chosen layer; portal brushes add an elevator to the floor above or
+ * below, and dragging either end of one moves it, so the layers can be
+ * linked anywhere.
+ */
+export function useMazeEditor3D(
+  generated: { maze: number[][][]; portals: PortalMap },
+  onEdit?: () => void
+): MazeEditor3D {
+  const [chosen, setLayer] = useState(0);
+  // Fewer layers after a regeneration keep the choice in range
+  const layer = Math.max(0, Math.min(chosen, generated.maze.length - 1));
+  const { current, ...controls } = useEditorState(
+    generated,
+    (generated) => generated,
+    layer,
+    "square",
+    onEdit
+  );
+  return {
+    ...controls,
+    maze: current.maze,
+    portals: current.portals,
+    layer,
+    setLayer,
+  };
+}
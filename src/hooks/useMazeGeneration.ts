@@ -0,0 +1,139 @@
+import React, { useEffect, useRef, useState } from "react";
+
+import { CELL_TYPES, COLORS } from "@/components/utils";
+import type { GenerationEvent } from "@/components/utils";
+
+// Must outlast useMazeAlgorithm's reset of the spheres after a maze change
+const START_DELAY = 250;
+// Carve steps are finer grained than search expansions, so they run faster
+const SPEED_FACTOR = 4;
+const FRAME_MS = 16;
+
+interface UseMazeGenerationProps {
+  maze: number[][];
+  // Recorded generation of `maze`; without it there is nothing to replay
+  steps?: GenerationEvent[];
+  enabled: boolean;
+  animationSpeed: number;
+  paintNode: (x: number, y: number, color: number) => void;
+  resetColors: () => void;
+  setIsGenerating?: React.Dispatch<React.SetStateAction<boolean>>;
+}
+
+export interface GenerationProgress {
+  done: number;
+  total: number;
+}
+
+const blankGrid = (maze: number[][]) =>
+  maze.map((row) => row.map(() => CELL_TYPES.WALL as number));
+
+/**
+ * Replays how a 2D maze was generated: starts from solid walls and applies
+ * the recorded steps at the animation speed. Returns the grid to draw walls
+ * from while the replay runs, or null once the finished maze should show.
+ */
+export function useMazeGeneration({
+  maze,
+  steps,
+  enabled,
+  animationSpeed,
+  paintNode,
+  resetColors,
+  setIsGenerating,
+}: UseMazeGenerationProps) {
+  const replaying = enabled && !!steps && steps.length > 0;
+  const [grid, setGrid] = useState<number[][] | null>(() =>
+    replaying ? blankGrid(maze) : null
+  );
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+
+  // A new generation, or turning the replay on, starts again from solid
+  // walls. Edits to the maze don't replay anything.
+  const [prevSteps, setPrevSteps] = useState(steps);
+  const [prevReplaying, setPrevReplaying] = useState(replaying);
+  if (steps !== prevSteps || replaying !== prevReplaying) {
+    setPrevSteps(steps);
+    setPrevReplaying(replaying);
+    setGrid(replaying ? blankGrid(maze) : null);
+    setProgress(null);
+  }
+
+  // Latest maze, callbacks and speed, read by the running replay
+  const latestRef = useRef({
+    maze,
+    animationSpeed,
+    paintNode,
+    resetColors,
+    setIsGenerating,
+  });
+  useEffect(() => {
+    latestRef.current = {
+      maze,
+      animationSpeed,
+      paintNode,
+      resetColors,
+      setIsGenerating,
+    };
+  });
+
+  useEffect(() => {
+    if (!replaying || !steps) return;
+    const working = blankGrid(latestRef.current.maze);
+    let index = 0;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const apply = (event: GenerationEvent) => {
+      const [x, y] = event.pos;
+      const { paintNode } = latestRef.current;
+      switch (event.type) {
+        case "carve":
+          working[y][x] = CELL_TYPES.NODE;
+          paintNode(x, y, COLORS.CARVED);
+          break;
+        case "opening":
+          working[y][x] = CELL_TYPES.NODE;
+          paintNode(x, y, COLORS.OPENING);
+          break;
+        case "wall":
+          working[y][x] = CELL_TYPES.WALL;
+          paintNode(x, y, 0);
+          break;
+        case "frontier":
+          paintNode(x, y, COLORS.FRONTIER);
+          break;
+      }
+    };
+
+    const tick = () => {
+      const stepMs = (100 - latestRef.current.animationSpeed) / SPEED_FACTOR;
+      // Several steps per frame once a step is shorter than a frame
+      const perTick = Math.max(1, Math.round(FRAME_MS / Math.max(stepMs, 1)));
+      for (let i = 0; i < perTick && index < steps.length; i++) {
+        apply(steps[index++]);
+      }
+      setGrid(working.map((row) => [...row]));
+      setProgress({ done: index, total: steps.length });
+
+      if (index < steps.length) {
+        timer = setTimeout(tick, Math.max(stepMs, FRAME_MS));
+        return;
+      }
+      setGrid(null);
+      setProgress(null);
+      latestRef.current.resetColors();
+      latestRef.current.setIsGenerating?.(false);
+    };
+
+    latestRef.current.setIsGenerating?.(true);
+    timer = setTimeout(tick, START_DELAY);
+
+    return () => {
+      clearTimeout(timer);
+      latestRef.current.resetColors();
+      latestRef.current.setIsGenerating?.(false);
+    };
+  }, [steps, replaying]);
+
+  return { grid, progress };
+}
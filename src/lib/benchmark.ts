@@ -0,0 +1,264 @@
+import type { Algorithm } from "@/App";
+import {
+  CELL_TYPES,
+  algorithmNames,
+  createSearchGraph,
+  generateMaze,
+  generateMaze3D,
+  informedAlgorithms,
+  mulberry32,
+  pathCost,
+  searchAlgorithms,
+} from "@/components/utils";
+import type {
+  MazeConfig,
+  MazeGenerator,
+  PortalMap,
+  SearchOptions,
+  Topology,
+} from "@/components/utils";
+
+export interface BenchmarkConfig {
+  // Maze widths; mazes are square
+  sizes: number[];
+  // Wall densities, as in the maze settings
+  densities: number[];
+  // 1 is a flat 2D maze, more is a stacked 3D maze
+  layers: number[];
+  // Mazes generated for every size/density/layers combination
+  mazesPerCase: number;
+  terrainDensity: number;
+  teleporterPairs: number;
+  conveyors: number;
+  generator: MazeGenerator;
+  // Cell shape of the 2D cases; 3D layers are always square
+  topology: Topology;
+  // Elevator layout of 3D mazes, as in the maze settings
+  elevatorsPerFloor: number;
+  elevatorSpan: number;
+  dropHolesPerFloor: number;
+  // Seeds the whole run, so the same config regenerates the same mazes
+  seed: number;
+  algorithms: Algorithm[];
+  options: SearchOptions;
+}
+
+export interface BenchmarkRow {
+  // Index of the maze within its case, so rows on the same maze line up
+  maze: number;
+  size: number;
+  density: number;
+  layers: number;
+  algorithm: Algorithm;
+  success: boolean;
+  nodesVisited: number;
+  pathLength: number;
+  pathCost: number;
+  // Most entries the search's queue, stack or open sets held at once; the
+  // stacks of DFS and iterative deepening keep superseded entries too
+  peakFrontier: number;
+  timeMs: number;
+}
+
+export interface BenchmarkSummary {
+  algorithm: Algorithm;
+  runs: number;
+  successRate: number;
+  // Means over successful runs for path figures, over all runs otherwise
+  nodesVisited: number;
+  pathLength: number;
+  pathCost: number;
+  peakFrontier: number;
+  timeMs: number;
+}
+
+// 3D generation gives up when no start/goal pair fits, so it gets retried
+const GENERATION_ATTEMPTS = 10;
+
+export function benchmarkRunCount(config: BenchmarkConfig): number {
+  return (
+    config.sizes.length *
+    config.densities.length *
+    config.layers.length *
+    config.mazesPerCase *
+    config.algorithms.length
+  );
+}
+
+function buildMaze(
+  config: MazeConfig,
+  layers: number
+): { maze: number[][] | number[][][]; portals?: PortalMap } {
+  if (layers <= 1) return { maze: generateMaze(config) };
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return generateMaze3D(layers, config);
+    } catch (err) {
+      if (attempt >= GENERATION_ATTEMPTS) throw err;
+    }
+  }
+}
+
+function findEndpoints(maze: number[][] | number[][][], is3D: boolean) {
+  let start: number[] | null = null;
+  let goal: number[] | null = null;
+  const layers = is3D ? (maze as number[][][]) : [maze as number[][]];
+  for (let z = 0; z < layers.length; z++) {
+    for (let y = 0; y < layers[z].length; y++) {
+      for (let x = 0; x < layers[z][y].length; x++) {
+        const pos = is3D ? [x, y, z] : [x, y];
+        if (layers[z][y][x] === CELL_TYPES.START) start = pos;
+        if (layers[z][y][x] === CELL_TYPES.GOAL) goal = pos;
+      }
+    }
+  }
+  if (!start || !goal) throw new Error("Generated maze has no start or goal");
+  return { start, goal };
+}
+
+/**
+ * Runs every configured algorithm on freshly generated mazes, without delay
+ * or painting, yielding one row per search. All algorithms of a case run on
+ * the same maze, so their rows are directly comparable.
+ */
+export function* runBenchmark(
+  config: BenchmarkConfig
+): Generator<BenchmarkRow, void, void> {
+  const { options } = config;
+  const random = mulberry32(config.seed);
+  for (const size of config.sizes) {
+    for (const density of config.densities) {
+      for (const layers of config.layers) {
+        const is3D = layers > 1;
+        const viewType = is3D ? "3D" : "2D";
+        for (let maze = 0; maze < config.mazesPerCase; maze++) {
+          const { maze: grid, portals } = buildMaze(
+            {
+              width: size,
+              height: size,
+              wallDensity: density,
+              terrainDensity: config.terrainDensity,
+              teleporterPairs: config.teleporterPairs,
+              conveyors: config.conveyors,
+              generator: config.generator,
+              topology: config.topology,
+              elevatorsPerFloor: config.elevatorsPerFloor,
+              elevatorSpan: config.elevatorSpan,
+              dropHolesPerFloor: config.dropHolesPerFloor,
+              random,
+            },
+            layers
+          );
+          const { start, goal } = findEndpoints(grid, is3D);
+          const searchOptions = {
+            ...options,
+            portals,
+            topology: is3D ? ("square" as const) : config.topology,
+          };
+
+          for (const algorithm of config.algorithms) {
+            // The graph, and the heuristic tables of informed searches, are
+            // built before the clock starts, so times compare the searches
+            const graph = createSearchGraph(grid, viewType, searchOptions);
+            if (informedAlgorithms.has(algorithm)) graph.heuristic(start, goal);
+            const began = performance.now();
+            const search = searchAlgorithms[algorithm](
+              graph,
+              start,
+              goal,
+              searchOptions
+            );
+            let step = search.next();
+            while (!step.done) step = search.next();
+            const timeMs = performance.now() - began;
+            const result = step.value;
+
+            yield {
+              maze,
+              size,
+              density,
+              layers,
+              algorithm,
+              success: result.success,
+              nodesVisited: result.visitedCount,
+              pathLength: result.path.length,
+              pathCost: pathCost(graph, result.path),
+              peakFrontier: result.peakFrontier ?? 0,
+              timeMs,
+            };
+          }
+        }
+      }
+    }
+  }
+}
+
+const mean = (values: number[]) =>
+  values.length === 0
+    ? 0
+    : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Per-algorithm means, in the order the algorithms first appear
+export function summarizeBenchmark(rows: BenchmarkRow[]): BenchmarkSummary[] {
+  const byAlgorithm = new Map<Algorithm, BenchmarkRow[]>();
+  for (const row of rows) {
+    const group = byAlgorithm.get(row.algorithm) ?? [];
+    group.push(row);
+    byAlgorithm.set(row.algorithm, group);
+  }
+
+  return [...byAlgorithm].map(([algorithm, group]) => {
+    const found = group.filter((row) => row.success);
+    return {
+      algorithm,
+      runs: group.length,
+      successRate: found.length / group.length,
+      nodesVisited: mean(group.map((row) => row.nodesVisited)),
+      pathLength: mean(found.map((row) => row.pathLength)),
+      pathCost: mean(found.map((row) => row.pathCost)),
+      peakFrontier: mean(group.map((row) => row.peakFrontier)),
+      timeMs: mean(group.map((row) => row.timeMs)),
+    };
+  });
+}
+
+const CSV_COLUMNS: (keyof BenchmarkRow)[] = [
+  "maze",
+  "size",
+  "density",
+  "layers",
+  "algorithm",
+  "success",
+  "nodesVisited",
+  "pathLength",
+  "pathCost",
+  "peakFrontier",
+  "timeMs",
+];
+
+export function benchmarkToCSV(rows: BenchmarkRow[]): string {
+  const lines = rows.map((row) =>
+    CSV_COLUMNS.map((column) =>
+      column === "timeMs" ? row.timeMs.toFixed(3) : String(row[column])
+    ).join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...lines].join("\n");
+}
+
+export function benchmarkToJSON(
+  config: BenchmarkConfig,
+  rows: BenchmarkRow[]
+): string {
+  return JSON.stringify(
+    {
+      config,
+      summary: summarizeBenchmark(rows).map((summary) => ({
+        ...summary,
+        name: algorithmNames[summary.algorithm],
+      })),
+      rows,
+    },
+    null,
+    2
+  );
+}
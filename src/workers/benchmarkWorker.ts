@@ -0,0 +1,40 @@
+import { runBenchmark } from "@/lib/benchmark";
+import type { BenchmarkConfig, BenchmarkRow } from "@/lib/benchmark";
+
+export type BenchmarkWorkerRequest = BenchmarkConfig;
+
+export type BenchmarkWorkerResponse =
+  | { type: "rows"; rows: BenchmarkRow[] }
+  | { type: "done" }
+  | { type: "error"; message: string };
+
+// Rows are posted at most this often, so progress stays live on long runs
+const FLUSH_INTERVAL_MS = 100;
+
+const post = (message: BenchmarkWorkerResponse) => self.postMessage(message);
+
+// Runs a whole benchmark off the main thread, streaming rows as they finish.
+// Cancellation is handled by the owner terminating the worker.
+self.addEventListener(
+  "message",
+  (e: MessageEvent<BenchmarkWorkerRequest>) => {
+    let batch: BenchmarkRow[] = [];
+    let lastFlush = performance.now();
+    try {
+      for (const row of runBenchmark(e.data)) {
+        batch.push(row);
+        if (performance.now() - lastFlush >= FLUSH_INTERVAL_MS) {
+          post({ type: "rows", rows: batch });
+          batch = [];
+          lastFlush = performance.now();
+        }
+      }
+      if (batch.length > 0) post({ type: "rows", rows: batch });
+      post({ type: "done" });
+    } catch (err) {
+      if (batch.length > 0) post({ type: "rows", rows: batch });
+      post({ type: "error", message: (err as Error).message });
+    }
+  },
+  { once: true }
+);
@@ -0,0 +1,81 @@
+import type { Algorithm } from "@/App";
+import {
+  createSearchGraph,
+  dijkstraSearch,
+  informedAlgorithms,
+  pathCost,
+  searchAlgorithms,
+} from "@/components/utils";
+import type {
+  SearchEvent,
+  SearchGenerator,
+  SearchOptions,
+  SearchResult,
+} from "@/components/utils";
+
+export interface SearchWorkerRequest {
+  algorithm: Algorithm;
+  maze: number[][] | number[][][];
+  start: number[];
+  goal: number[];
+  viewType: "2D" | "3D";
+  options: SearchOptions;
+}
+
+export type SearchWorkerResponse =
+  | { type: "events"; events: SearchEvent[] }
+  | { type: "done"; result: SearchResult }
+  | { type: "error"; message: string };
+
+// Events are posted in batches so the main thread isn't flooded with messages
+const BATCH_SIZE = 1000;
+
+const post = (message: SearchWorkerResponse) => self.postMessage(message);
+
+// Drains a search without streaming it, for reference results
+const runSilently = (search: SearchGenerator): SearchResult => {
+  let step = search.next();
+  while (!step.done) step = search.next();
+  return step.value;
+};
+
+// Runs one search to completion as fast as possible, streaming its events.
+// Cancellation is handled by the owner terminating the worker.
+self.addEventListener(
+  "message",
+  (e: MessageEvent<SearchWorkerRequest>) => {
+    const { algorithm, maze, start, goal, viewType, options } = e.data;
+    try {
+      const graph = createSearchGraph(maze, viewType, options);
+      const search = searchAlgorithms[algorithm](graph, start, goal, options);
+      let batch: SearchEvent[] = [];
+      let step = search.next();
+      while (!step.done) {
+        batch.push(step.value);
+        if (batch.length >= BATCH_SIZE) {
+          post({ type: "events", events: batch });
+          batch = [];
+        }
+        step = search.next();
+      }
+      if (batch.length > 0) post({ type: "events", events: batch });
+      const result = step.value;
+      // Heuristic choice and weight can cost optimality, so measure it
+      const optimal =
+        result.success && informedAlgorithms.has(algorithm)
+          ? runSilently(dijkstraSearch(graph, start, goal, options))
+          : null;
+      post({
+        type: "done",
+        result: {
+          ...result,
+          pathCost: pathCost(graph, result.path),
+          optimalCost: optimal ? pathCost(graph, optimal.path) : undefined,
+        },
+      });
+    } catch (err) {
+      post({ type: "error", message: (err as Error).message });
+    }
+  },
+  { once: true }
+);